@@ -1,29 +1,51 @@
 // /components/NoteCard.tsx
-import { useState, useRef, useEffect } from 'react';
-import { Play, Pause, Volume2, Camera, Clock, User, Expand, Download, Share } from 'lucide-react';
-
-interface Note {
-  id: string;
-  timestamp: string;
-  text?: string;
-  audio?: string;
-  images?: string[];
-  transcription?: string;
-  summary?: string;
-  duration?: number;
-  language?: string;
-}
-
-interface NoteCardProps {
-  note: Note;
-  onExpand?: (note: Note) => void;
-  onShare?: (note: Note) => void;
-  onDownload?: (note: Note) => void;
-  // We no longer call onDownload here, since the <a> tag handles the download directly
-}
+import { useState, useRef, useEffect, RefObject } from 'react';
+import {
+  Play,
+  Pause,
+  Volume2,
+  Camera,
+  Clock,
+  User,
+  Expand,
+  Download,
+  Share,
+  Trash2,
+  Pencil,
+  History,
+  RotateCcw,
+  AlertCircle,
+  Sparkles,
+  ShieldAlert,
+  EyeOff,
+  Paperclip,
+  FileText,
+  Image as ImageIcon,
+} from 'lucide-react';
+import {
+  ActionItem,
+  Note,
+  NoteAttachment,
+  NoteCardProps,
+  NoteRevision,
+  NoteSpeaker,
+  Redaction,
+  TranscriptSegment,
+} from '../types';
+import { diffWords, fieldToText } from '../utils/diff';
+import { formatTime } from '../utils/time';
+import { highestSeverity, SEVERITY_BADGE_CLASSES } from '../utils/safety';
 
-function AudioPlayer({ audioSrc }: { audioSrc: string }) {
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+// The <audio> element is owned by the card, so the transcript can seek it
+function AudioPlayer({
+  audioSrc,
+  audioRef,
+  onTimeUpdate,
+}: {
+  audioSrc: string;
+  audioRef: RefObject<HTMLAudioElement>;
+  onTimeUpdate?: (seconds: number) => void;
+}) {
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [audioDuration, setAudioDuration] = useState(0);
@@ -35,13 +57,6 @@ function AudioPlayer({ audioSrc }: { audioSrc: string }) {
     } else {
       audioRef.current.play();
     }
-    setIsPlaying(!isPlaying);
-  };
-
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
   useEffect(() => {
@@ -51,24 +66,33 @@ function AudioPlayer({ audioSrc }: { audioSrc: string }) {
     const onLoadedMetadata = () => {
       setAudioDuration(audioEl.duration);
     };
-    const onTimeUpdate = () => {
+    const handleTimeUpdate = () => {
       setCurrentTime(audioEl.currentTime);
+      onTimeUpdate?.(audioEl.currentTime);
     };
+    // Playback can also be started by the transcript, so follow the element
+    const onPlay = () => setIsPlaying(true);
+    const onPause = () => setIsPlaying(false);
     const onEnded = () => {
       setIsPlaying(false);
       setCurrentTime(0);
+      onTimeUpdate?.(0);
     };
 
     audioEl.addEventListener('loadedmetadata', onLoadedMetadata);
-    audioEl.addEventListener('timeupdate', onTimeUpdate);
+    audioEl.addEventListener('timeupdate', handleTimeUpdate);
+    audioEl.addEventListener('play', onPlay);
+    audioEl.addEventListener('pause', onPause);
     audioEl.addEventListener('ended', onEnded);
 
     return () => {
       audioEl.removeEventListener('loadedmetadata', onLoadedMetadata);
-      audioEl.removeEventListener('timeupdate', onTimeUpdate);
+      audioEl.removeEventListener('timeupdate', handleTimeUpdate);
+      audioEl.removeEventListener('play', onPlay);
+      audioEl.removeEventListener('pause', onPause);
       audioEl.removeEventListener('ended', onEnded);
     };
-  }, []);
+  }, [audioRef, onTimeUpdate]);
 
   useEffect(() => {
     if (audioRef.current) {
@@ -124,10 +148,244 @@ function AudioPlayer({ audioSrc }: { audioSrc: string }) {
   );
 }
 
-function ImageGallery({ images }: { images: string[] }) {
+const SPEAKER_COLORS = [
+  'text-blue-700',
+  'text-emerald-700',
+  'text-amber-700',
+  'text-purple-700',
+  'text-rose-700',
+];
+
+function Transcript({
+  segments,
+  speakers = [],
+  currentTime,
+  onSeek,
+}: {
+  segments: TranscriptSegment[];
+  speakers?: NoteSpeaker[];
+  currentTime: number;
+  onSeek?: (seconds: number) => void;
+}) {
+  const isActive = (start: number, end: number) => currentTime >= start && currentTime < end;
+  const speakerIndex = (id?: string) => speakers.findIndex((s) => s.id === id);
+
+  return (
+    <div className="space-y-1">
+      {segments.map((segment, idx) => {
+        const active = isActive(segment.start, segment.end);
+        const speaker = speakerIndex(segment.speaker);
+        // Only label where the speaker changes, like a script
+        const showSpeaker =
+          speaker >= 0 && (idx === 0 || segments[idx - 1].speaker !== segment.speaker);
+        return (
+          <button
+            key={idx}
+            onClick={() => onSeek?.(segment.start)}
+            disabled={!onSeek}
+            className={`flex w-full text-left text-sm px-2 py-1 rounded-lg transition-colors ${
+              active ? 'bg-blue-50 text-blue-900' : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span className="w-12 flex-shrink-0 text-xs text-gray-400 font-mono pt-0.5">
+              {formatTime(segment.start)}
+            </span>
+            <span className="flex-1">
+              {showSpeaker && (
+                <span
+                  className={`block text-xs font-semibold ${SPEAKER_COLORS[speaker % SPEAKER_COLORS.length]}`}
+                >
+                  {speakers[speaker].name}
+                </span>
+              )}
+              {active && segment.words
+                ? segment.words.map((word, wIdx) => (
+                    <span
+                      key={wIdx}
+                      className={isActive(word.start, word.end) ? 'font-semibold underline' : undefined}
+                    >
+                      {word.word}{' '}
+                    </span>
+                  ))
+                : segment.text}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+function ActionItems({
+  note,
+  onToggle,
+  onSeek,
+}: {
+  note: Note;
+  onToggle?: NoteCardProps['onToggleActionItem'];
+  onSeek?: (seconds: number) => void;
+}) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const items = note.actionItems ?? [];
+
+  const handleToggle = async (item: ActionItem) => {
+    if (!onToggle) return;
+    setBusyId(item.id);
+    setError(null);
+    try {
+      await onToggle(note, item, !item.done);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to update action item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">
+        Action items ({items.filter((item) => !item.done).length} open)
+      </h4>
+      <ul className="space-y-1">
+        {items.map((item) => (
+          <li key={item.id} className="flex items-start space-x-2 text-sm">
+            <input
+              type="checkbox"
+              checked={item.done}
+              onChange={() => handleToggle(item)}
+              disabled={!onToggle || busyId === item.id}
+              className="mt-1 rounded border-gray-300"
+            />
+            <div className="flex-1 min-w-0">
+              <span className={item.done ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                {item.text}
+              </span>
+              <div className="flex flex-wrap items-center gap-1 mt-0.5">
+                {item.assignee && (
+                  <span className="px-2 py-0.5 bg-amber-50 text-amber-700 text-xs rounded-full">
+                    {item.assignee}
+                  </span>
+                )}
+                {item.due && (
+                  <span className="px-2 py-0.5 bg-red-50 text-red-700 text-xs rounded-full">
+                    {item.due}
+                  </span>
+                )}
+                {item.source && onSeek && (
+                  <button
+                    onClick={() => item.source && onSeek(item.source.start)}
+                    title="Play from here"
+                    className="text-xs text-gray-400 hover:text-blue-600 font-mono"
+                  >
+                    {formatTime(item.source.start)}
+                  </button>
+                )}
+                {item.done && item.doneBy && (
+                  <span className="text-xs text-gray-400">Done by {item.doneBy}</span>
+                )}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
+
+function SafetyFlags({
+  flags,
+  onSeek,
+}: {
+  flags: NonNullable<Note['flags']>;
+  onSeek?: (seconds: number) => void;
+}) {
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+      <h4 className="flex items-center space-x-1 text-xs font-medium text-red-700 uppercase mb-2">
+        <ShieldAlert className="w-4 h-4" />
+        <span>Safety</span>
+      </h4>
+      <ul className="space-y-2">
+        {flags.map((flag) => (
+          <li key={flag.rule} className="text-sm">
+            <div className="flex items-center space-x-2">
+              <span
+                className={`px-2 py-0.5 text-xs rounded-full uppercase ${SEVERITY_BADGE_CLASSES[flag.severity]}`}
+              >
+                {flag.severity}
+              </span>
+              <span className="font-medium text-red-900">{flag.label}</span>
+              {flag.source && onSeek && (
+                <button
+                  onClick={() => flag.source && onSeek(flag.source.start)}
+                  title="Play from here"
+                  className="text-xs text-red-400 hover:text-red-700 font-mono"
+                >
+                  {formatTime(flag.source.start)}
+                </button>
+              )}
+            </div>
+            <p className="text-red-800 mt-0.5">{flag.excerpt}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+const REDACTION_LABELS: Record<Redaction['kind'], string> = {
+  phone: 'Phone',
+  email: 'Email',
+  address: 'Address',
+  name: 'Name',
+};
+
+// What the redaction pass would take out of reports; only shown to the team
+function RedactionAudit({ redactions }: { redactions: Redaction[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 text-gray-500 hover:text-gray-700"
+      >
+        <EyeOff className="w-4 h-4" />
+        <span>
+          {redactions.length} personal detail{redactions.length !== 1 ? 's' : ''} redacted
+          {isOpen ? '' : ' – show'}
+        </span>
+      </button>
+      {isOpen && (
+        <ul className="mt-2 space-y-1">
+          {redactions.map((r, idx) => (
+            <li key={idx} className="flex items-center space-x-2 text-gray-600">
+              <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-xs rounded-full">
+                {REDACTION_LABELS[r.kind]}
+              </span>
+              <span className="font-mono text-xs">{r.text}</span>
+              <span className="text-xs text-gray-400">in {r.field}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ImageGallery({
+  images,
+  captions = {},
+}: {
+  images: string[];
+  captions?: Record<string, string>;
+}) {
   const [selectedImage, setSelectedImage] = useState(0);
 
   if (images.length === 0) return null;
+  const caption = captions[images[selectedImage]];
 
   return (
     <div className="space-y-3">
@@ -135,10 +393,16 @@ function ImageGallery({ images }: { images: string[] }) {
       <div className="relative aspect-video bg-gray-100 rounded-lg overflow-hidden">
         <img
           src={`/uploads/${images[selectedImage]}`}
-          alt={`Photo ${selectedImage + 1}`}
+          alt={caption || `Photo ${selectedImage + 1}`}
           className="w-full h-full object-cover"
         />
 
+        {caption && (
+          <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-black/70 to-transparent px-3 pt-6 pb-2">
+            <p className="text-sm text-white">{caption}</p>
+          </div>
+        )}
+
         {/* Image Counter */}
         {images.length > 1 && (
           <div className="absolute top-3 right-3 bg-black/70 text-white px-2 py-1 rounded-lg text-sm">
@@ -162,7 +426,7 @@ function ImageGallery({ images }: { images: string[] }) {
             >
               <img
                 src={`/uploads/${image}`}
-                alt={`Thumbnail ${index + 1}`}
+                alt={captions[image] || `Thumbnail ${index + 1}`}
                 className="w-full h-full object-cover"
               />
             </button>
@@ -173,9 +437,405 @@ function ImageGallery({ images }: { images: string[] }) {
   );
 }
 
-export default function NoteCard({ note, onExpand, onShare }: NoteCardProps) {
+// What the attachments endpoint takes; it has the final say
+const ATTACHMENT_ACCEPT = 'image/*,audio/*,.pdf,.doc,.docx,.xls,.xlsx,.txt,.csv';
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const ATTACHMENT_ICONS: Record<NoteAttachment['kind'], typeof FileText> = {
+  image: ImageIcon,
+  audio: Volume2,
+  document: FileText,
+};
+
+// Files added after the note was created; photos and clips play inline
+function Attachments({ attachments }: { attachments: NoteAttachment[] }) {
+  return (
+    <div>
+      <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Attachments</h4>
+      <ul className="space-y-2">
+        {attachments.map((attachment) => {
+          const Icon = ATTACHMENT_ICONS[attachment.kind];
+          const src = `/uploads/${attachment.file}`;
+          return (
+            <li key={attachment.id} className="bg-gray-50 rounded-lg p-3 space-y-2">
+              <div className="flex items-center space-x-3">
+                {attachment.kind === 'image' ? (
+                  <a href={src} target="_blank" rel="noreferrer" className="flex-shrink-0">
+                    <img
+                      src={src}
+                      alt={attachment.name}
+                      className="w-12 h-12 rounded-lg object-cover"
+                    />
+                  </a>
+                ) : (
+                  <div className="flex-shrink-0 w-12 h-12 bg-white border border-gray-200 rounded-lg flex items-center justify-center">
+                    <Icon className="w-5 h-5 text-gray-500" />
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <a
+                    href={src}
+                    download={attachment.name}
+                    className="block text-sm font-medium text-gray-900 hover:text-blue-600 truncate"
+                  >
+                    {attachment.name}
+                  </a>
+                  <p className="text-xs text-gray-500">
+                    {formatFileSize(attachment.size)} •{' '}
+                    {new Date(attachment.addedAt).toLocaleDateString('en-US')}
+                    {attachment.addedBy && ` by ${attachment.addedBy}`}
+                  </p>
+                </div>
+                <a
+                  href={src}
+                  download={attachment.name}
+                  title="Download"
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                </a>
+              </div>
+              {attachment.kind === 'audio' && (
+                <audio src={src} controls preload="none" className="w-full h-8" />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function NoteEditor({
+  note,
+  onSave,
+  onCancel,
+}: {
+  note: Note;
+  onSave: NonNullable<NoteCardProps['onUpdate']>;
+  onCancel: () => void;
+}) {
+  const [transcription, setTranscription] = useState(note.transcription ?? '');
+  const [summary, setSummary] = useState(note.summary ?? '');
+  const [insights, setInsights] = useState((note.insights ?? []).join('\n'));
+  const [speakers, setSpeakers] = useState<NoteSpeaker[]>(note.speakers ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(note, {
+        transcription,
+        summary,
+        insights: insights.split('\n').map((line) => line.trim()).filter(Boolean),
+        ...(speakers.length > 0 ? { speakers } : {}),
+      });
+      onCancel();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to save changes');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Summary</label>
+        <textarea
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+          rows={2}
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">Transcription</label>
+        <textarea
+          value={transcription}
+          onChange={(e) => setTranscription(e.target.value)}
+          rows={6}
+          className={fieldClass}
+        />
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-gray-600 mb-1">
+          Insights (one per line)
+        </label>
+        <textarea
+          value={insights}
+          onChange={(e) => setInsights(e.target.value)}
+          rows={3}
+          className={fieldClass}
+        />
+      </div>
+
+      {speakers.length > 0 && (
+        <div>
+          <label className="block text-xs font-medium text-gray-600 mb-1">Speakers</label>
+          <div className="grid grid-cols-2 gap-2">
+            {speakers.map((speaker, idx) => (
+              <input
+                key={speaker.id}
+                value={speaker.name}
+                onChange={(e) =>
+                  setSpeakers((prev) =>
+                    prev.map((s, i) => (i === idx ? { ...s, name: e.target.value } : s))
+                  )
+                }
+                placeholder={`Speaker ${idx + 1}`}
+                className={fieldClass}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex items-center space-x-3">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg text-sm transition-colors"
+        >
+          {isSaving ? 'Saving...' : 'Save Changes'}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-sm transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function TranscriptionFailure({
+  note,
+  onRetry,
+}: {
+  note: Note;
+  onRetry?: NoteCardProps['onRetryTranscription'];
+}) {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setIsRetrying(true);
+    setError(null);
+    try {
+      await onRetry(note);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to retry transcription');
+    } finally {
+      setIsRetrying(false);
+    }
+  };
+
+  return (
+    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+      <div className="flex items-start space-x-3">
+        <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium text-red-800">Transcription failed</p>
+          {note.transcriptionError && (
+            <p className="text-sm text-red-700 mt-1 break-words">{note.transcriptionError}</p>
+          )}
+          {error && <p className="text-sm text-red-700 mt-1">{error}</p>}
+        </div>
+        {onRetry && note.audio && (
+          <button
+            onClick={handleRetry}
+            disabled={isRetrying}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm bg-white hover:bg-red-100 disabled:opacity-50 text-red-700 border border-red-200 rounded-lg transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>{isRetrying ? 'Retrying...' : 'Retry'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function FieldDiff({ before, after }: { before: unknown; after: unknown }) {
+  const parts = diffWords(fieldToText(before), fieldToText(after));
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">
+      {parts.map((part, idx) =>
+        part.type === 'same' ? (
+          <span key={idx}>{part.text}</span>
+        ) : part.type === 'added' ? (
+          <ins key={idx} className="bg-green-100 text-green-800 no-underline">
+            {part.text}
+          </ins>
+        ) : (
+          <del key={idx} className="bg-red-100 text-red-800">
+            {part.text}
+          </del>
+        )
+      )}
+    </p>
+  );
+}
+
+function RevisionHistory({
+  note,
+  onLoad,
+  onRestore,
+}: {
+  note: Note;
+  onLoad: NonNullable<NoteCardProps['onLoadRevisions']>;
+  onRestore?: NoteCardProps['onRestoreRevision'];
+}) {
+  const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  // Reload whenever the note changes, e.g. after an edit or a restore
+  useEffect(() => {
+    let cancelled = false;
+    onLoad(note)
+      .then((list) => !cancelled && setRevisions(list))
+      .catch((e) => !cancelled && setError(e instanceof Error ? e.message : 'Failed to load history'));
+    return () => {
+      cancelled = true;
+    };
+  }, [note, onLoad]);
+
+  const handleRestore = async (revision: NoteRevision) => {
+    if (!onRestore) return;
+    if (!window.confirm('Restore the values this change replaced?')) return;
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      await onRestore(note, revision);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (error) return <p className="text-sm text-red-600">{error}</p>;
+  if (!revisions) return <p className="text-sm text-gray-500">Loading history...</p>;
+  if (revisions.length === 0) {
+    return <p className="text-sm text-gray-500">This note has not been edited.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {revisions.map((revision) => (
+        <div key={revision.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              {new Date(revision.timestamp).toLocaleString('en-US')} •{' '}
+              {revision.actor || 'Unknown user'}
+              {revision.restoredFrom && ' • restore'}
+            </span>
+            {onRestore && (
+              <button
+                onClick={() => handleRestore(revision)}
+                disabled={restoringId !== null}
+                className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>{restoringId === revision.id ? 'Restoring...' : 'Restore'}</span>
+              </button>
+            )}
+          </div>
+          {revision.changes.map((change) => (
+            <div key={change.field}>
+              <div className="text-xs font-medium text-gray-600 capitalize mb-1">
+                {change.field}
+              </div>
+              <FieldDiff before={change.before} after={change.after} />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function NoteCard({
+  note,
+  projectId,
+  onExpand,
+  onShare,
+  onDelete,
+  onUpdate,
+  onLoadRevisions,
+  onRestoreRevision,
+  onRetryTranscription,
+  onResummarize,
+  onToggleActionItem,
+  onAttach,
+}: NoteCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState(0);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [summarizeError, setSummarizeError] = useState<string | null>(null);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const attachInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAttach = async (files: FileList | null) => {
+    const picked = Array.from(files ?? []);
+    if (attachInputRef.current) attachInputRef.current.value = '';
+    if (!onAttach || picked.length === 0) return;
+    setIsAttaching(true);
+    setAttachError(null);
+    try {
+      await onAttach(note, picked);
+    } catch (e) {
+      setAttachError(e instanceof Error ? e.message : 'Failed to attach files');
+    } finally {
+      setIsAttaching(false);
+    }
+  };
+
+  const handleResummarize = async () => {
+    if (!onResummarize) return;
+    setIsSummarizing(true);
+    setSummarizeError(null);
+    try {
+      await onResummarize(note);
+    } catch (e) {
+      setSummarizeError(e instanceof Error ? e.message : 'Failed to summarize note');
+    } finally {
+      setIsSummarizing(false);
+    }
+  };
+  const canResummarize =
+    onResummarize && note.processingStatus !== 'pending' && !!(note.transcription || note.text);
 
+  const seekTo = (seconds: number) => {
+    const audioEl = audioRef.current;
+    if (!audioEl) return;
+    audioEl.currentTime = seconds;
+    setPlaybackTime(seconds);
+    void audioEl.play();
+  };
+
+  const safetySeverity = highestSeverity(note.flags ?? []);
   const displayText = note.summary || note.transcription || note.text || '';
   const previewText =
     displayText.length > 200 ? displayText.slice(0, 200) + '...' : displayText;
@@ -212,6 +872,38 @@ export default function NoteCard({ note, onExpand, onShare }: NoteCardProps) {
                     {note.language}
                   </span>
                 )}
+                {safetySeverity && (
+                  <span
+                    title={(note.flags ?? []).map((f) => f.label).join(', ')}
+                    className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-full ${SEVERITY_BADGE_CLASSES[safetySeverity]}`}
+                  >
+                    <ShieldAlert className="w-3 h-3" />
+                    <span>Safety</span>
+                  </span>
+                )}
+                {note.processingStatus === 'pending' && (
+                  <span className="px-2 py-1 bg-purple-100 text-purple-700 text-xs rounded-full animate-pulse">
+                    Processing…
+                  </span>
+                )}
+                {note.processingStatus === 'failed' && (
+                  <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full">
+                    Processing failed
+                  </span>
+                )}
+                {note.processingStatus !== 'failed' && note.transcriptionStatus === 'failed' && (
+                  <span className="px-2 py-1 bg-red-100 text-red-700 text-xs rounded-full">
+                    Not transcribed
+                  </span>
+                )}
+                {note.audio && note.transcriptionStatus === 'skipped' && (
+                  <span
+                    title={note.transcriptionError}
+                    className="px-2 py-1 bg-gray-100 text-gray-500 text-xs rounded-full"
+                  >
+                    Transcription off
+                  </span>
+                )}
               </div>
               <div className="flex items-center space-x-1 text-sm text-gray-500">
                 <Clock className="w-4 h-4" />
@@ -229,14 +921,87 @@ export default function NoteCard({ note, onExpand, onShare }: NoteCardProps) {
               <Share className="w-4 h-4" />
             </button>
 
-            {/* Download PDF directly from public/reports/{note.id}.pdf */}
-            <a
-              href={`/reports/${note.id}.pdf`}
-              download
-              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
-            >
-              <Download className="w-4 h-4" />
-            </a>
+            {/* Rendered from the note as it is now, so edits show up */}
+            {projectId && (
+              <a
+                href={`/api/project/${projectId}/note/${note.id}/pdf`}
+                download
+                title="Download PDF"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4" />
+              </a>
+            )}
+
+            {onUpdate && (
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                title="Edit note"
+                className={`p-2 rounded-lg transition-colors ${
+                  isEditing
+                    ? 'text-blue-600 bg-blue-50'
+                    : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+
+            {canResummarize && (
+              <button
+                onClick={handleResummarize}
+                disabled={isSummarizing}
+                title="Summarize again"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 rounded-lg transition-colors"
+              >
+                <Sparkles className={`w-4 h-4 ${isSummarizing ? 'animate-pulse' : ''}`} />
+              </button>
+            )}
+
+            {onAttach && (
+              <>
+                <input
+                  ref={attachInputRef}
+                  type="file"
+                  accept={ATTACHMENT_ACCEPT}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => handleAttach(e.target.files)}
+                />
+                <button
+                  onClick={() => attachInputRef.current?.click()}
+                  disabled={isAttaching}
+                  title="Attach files"
+                  className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 disabled:opacity-50 rounded-lg transition-colors"
+                >
+                  <Paperclip className={`w-4 h-4 ${isAttaching ? 'animate-pulse' : ''}`} />
+                </button>
+              </>
+            )}
+
+            {onLoadRevisions && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                title="Edit history"
+                className={`p-2 rounded-lg transition-colors ${
+                  showHistory
+                    ? 'text-blue-600 bg-blue-50'
+                    : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                <History className="w-4 h-4" />
+              </button>
+            )}
+
+            {onDelete && (
+              <button
+                onClick={() => onDelete(note)}
+                title="Move to trash"
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
 
             <button
               onClick={() => setIsExpanded(!isExpanded)}
@@ -248,7 +1013,20 @@ export default function NoteCard({ note, onExpand, onShare }: NoteCardProps) {
         </div>
 
         {/* Content */}
-        {displayText && (
+        {isEditing && onUpdate && (
+          <NoteEditor note={note} onSave={onUpdate} onCancel={() => setIsEditing(false)} />
+        )}
+
+        {!isEditing && note.transcriptionStatus === 'failed' && (
+          <div className={displayText ? 'mb-4' : undefined}>
+            <TranscriptionFailure note={note} onRetry={onRetryTranscription} />
+          </div>
+        )}
+
+        {summarizeError && <p className="text-sm text-red-600 mb-2">{summarizeError}</p>}
+        {attachError && <p className="text-sm text-red-600 mb-2">{attachError}</p>}
+
+        {!isEditing && displayText && (
           <div className="prose prose-sm max-w-none">
             <p className="text-gray-700 leading-relaxed whitespace-pre-wrap">
               {isExpanded ? displayText : previewText}
@@ -262,23 +1040,96 @@ export default function NoteCard({ note, onExpand, onShare }: NoteCardProps) {
                 <Expand className="w-3 h-3" />
               </button>
             )}
+            {note.topics && note.topics.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2 not-prose">
+                {note.topics.map((topic) => (
+                  <span
+                    key={topic}
+                    className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full"
+                  >
+                    {topic}
+                  </span>
+                ))}
+              </div>
+            )}
+            {isExpanded && note.insights && note.insights.length > 0 && (
+              <ul className="mt-3 text-sm text-gray-600 list-disc pl-5">
+                {note.insights.map((insight, idx) => (
+                  <li key={idx}>{insight}</li>
+                ))}
+              </ul>
+            )}
+            {isExpanded && note.summarizedBy && (
+              <p className="mt-2 text-xs text-gray-400">
+                Summarized with the {note.summarizedBy} summarizer
+              </p>
+            )}
+          </div>
+        )}
+
+        {!isEditing && isExpanded && note.flags && note.flags.length > 0 && (
+          <div className="mt-4">
+            <SafetyFlags flags={note.flags} onSeek={note.audio ? seekTo : undefined} />
+          </div>
+        )}
+
+        {!isEditing && note.actionItems && note.actionItems.length > 0 && (
+          <div className="mt-4">
+            <ActionItems
+              note={note}
+              onToggle={onToggleActionItem}
+              onSeek={note.audio ? seekTo : undefined}
+            />
+          </div>
+        )}
+
+        {!isEditing && isExpanded && note.redactions && note.redactions.length > 0 && (
+          <div className="mt-4">
+            <RedactionAudit redactions={note.redactions} />
+          </div>
+        )}
+
+        {!isEditing && isExpanded && note.segments && note.segments.length > 0 && (
+          <div className="mt-4">
+            <h4 className="text-xs font-medium text-gray-500 uppercase mb-2">Transcript</h4>
+            <Transcript
+              segments={note.segments}
+              speakers={note.speakers}
+              currentTime={playbackTime}
+              onSeek={note.audio ? seekTo : undefined}
+            />
           </div>
         )}
       </div>
 
+      {/* Revision History */}
+      {showHistory && onLoadRevisions && (
+        <div className="px-6 pb-4">
+          <RevisionHistory note={note} onLoad={onLoadRevisions} onRestore={onRestoreRevision} />
+        </div>
+      )}
+
       {/* Media Content */}
       {hasMedia && (
         <div className="px-6 pb-4 space-y-4">
           {/* Audio Player */}
-          {note.audio && <AudioPlayer audioSrc={note.audio} />}
+          {note.audio && (
+            <AudioPlayer audioSrc={note.audio} audioRef={audioRef} onTimeUpdate={setPlaybackTime} />
+          )}
 
           {/* Image Gallery */}
           {note.images && note.images.length > 0 && (
-            <ImageGallery images={note.images} />
+            <ImageGallery images={note.images} captions={note.imageCaptions} />
           )}
         </div>
       )}
 
+      {note.attachments && note.attachments.length > 0 && (
+        <div className="px-6 pb-4">
+          <Attachments attachments={note.attachments} />
+        </div>
+      )}
+
       {/* Footer with Stats */}
       <div className="px-6 py-4 bg-gray-50 border-t border-gray-100">
         <div className="flex items-center justify-between">
@@ -298,7 +1149,13 @@ export default function NoteCard({ note, onExpand, onShare }: NoteCardProps) {
                 </span>
               </div>
             )}
-            {note.transcription && (
+            {note.attachments && note.attachments.length > 0 && (
+              <div className="flex items-center space-x-1">
+                <Paperclip className="w-4 h-4" />
+                <span>{note.attachments.length}</span>
+              </div>
+            )}
+            {note.transcriptionStatus === 'done' && (
               <div className="flex items-center space-x-1">
                 <span>✓</span>
                 <span>Transcribed</span>
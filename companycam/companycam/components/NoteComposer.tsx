@@ -0,0 +1,125 @@
+// /components/NoteComposer.tsx
+import { useEffect, useRef, useState } from 'react';
+import { ImagePlus, Send, X } from 'lucide-react';
+
+const MAX_PHOTOS = 10;
+
+export interface ComposedPhoto {
+  file: File;
+  caption: string;
+}
+
+interface NoteComposerProps {
+  onSubmit: (data: { text: string; photos: ComposedPhoto[] }) => void;
+}
+
+// A note without a recording: typed text, photos with captions, or both
+export default function NoteComposer({ onSubmit }: NoteComposerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [photos, setPhotos] = useState<(ComposedPhoto & { preview: string })[]>([]);
+
+  // Previews are object URLs; let them go with the photos
+  const previews = useRef<string[]>([]);
+  previews.current = photos.map((p) => p.preview);
+  useEffect(() => () => previews.current.forEach((url) => URL.revokeObjectURL(url)), []);
+
+  const addPhotos = (files: FileList | null) => {
+    const picked = Array.from(files ?? [])
+      .filter((file) => file.type.startsWith('image/'))
+      .slice(0, MAX_PHOTOS - photos.length)
+      .map((file) => ({ file, caption: '', preview: URL.createObjectURL(file) }));
+    setPhotos((prev) => [...prev, ...picked]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const removePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].preview);
+    setPhotos((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const setCaption = (index: number, caption: string) => {
+    setPhotos((prev) => prev.map((p, i) => (i === index ? { ...p, caption } : p)));
+  };
+
+  const canSubmit = text.trim().length > 0 || photos.length > 0;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      text: text.trim(),
+      photos: photos.map(({ file, caption }) => ({ file, caption: caption.trim() })),
+    });
+    setText('');
+    setPhotos([]);
+  };
+
+  return (
+    <div className="w-full max-w-lg mx-auto bg-white rounded-3xl border border-gray-200 shadow-2xl overflow-hidden">
+      <div className="p-6 space-y-4">
+        <textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          placeholder="What did you see? Measurements, issues, next steps..."
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-y"
+        />
+
+        {photos.length > 0 && (
+          <div className="space-y-3">
+            {photos.map((photo, index) => (
+              <div key={photo.preview} className="flex items-start space-x-3">
+                <div className="relative flex-shrink-0 w-20 h-20 rounded-lg overflow-hidden bg-gray-100">
+                  <img src={photo.preview} alt={`Photo ${index + 1}`} className="w-full h-full object-cover" />
+                  <button
+                    onClick={() => removePhoto(index)}
+                    className="absolute top-1 right-1 p-0.5 bg-black/60 hover:bg-black/80 text-white rounded-full"
+                    title="Remove photo"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+                <input
+                  value={photo.caption}
+                  onChange={(e) => setCaption(index, e.target.value)}
+                  maxLength={500}
+                  placeholder="Caption (optional)"
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/*"
+          capture="environment"
+          multiple
+          className="hidden"
+          onChange={(e) => addPhotos(e.target.files)}
+        />
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={photos.length >= MAX_PHOTOS}
+            className="flex items-center space-x-2 px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors"
+          >
+            <ImagePlus className="w-4 h-4" />
+            <span>{photos.length ? 'Add More Photos' : 'Add Photos'}</span>
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="flex items-center space-x-2 px-5 py-2 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg transition-colors font-medium"
+          >
+            <Send className="w-4 h-4" />
+            <span>Save Note</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// /components/OfflineBanner.tsx
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/router';
+import { WifiOff, History } from 'lucide-react';
+import { watchPageStatus } from '../utils/offline';
+
+const formatAge = (iso: string) => {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+// Says when the page on screen is a copy saved on the device rather than
+// what's on the server now, and how old that copy is
+export default function OfflineBanner() {
+  const router = useRouter();
+  const page = router.asPath.split(/[?#]/)[0];
+  const [online, setOnline] = useState(true);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    setCachedAt(null);
+    return watchPageStatus(page, (status) => {
+      if (status.page === page) setCachedAt(status.cachedAt);
+    });
+  }, [page]);
+
+  if (online && !cachedAt) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 max-w-xs flex items-start space-x-2 px-4 py-2 rounded-2xl shadow-lg bg-gray-900 text-white text-sm no-print">
+      {online ? (
+        <History className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      ) : (
+        <WifiOff className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      )}
+      <span>
+        {online ? "Can't reach the server." : "You're offline."}{' '}
+        {cachedAt
+          ? `Showing data saved ${formatAge(cachedAt)}; it may be out of date.`
+          : 'Changes and new data will have to wait.'}
+        {online && cachedAt && (
+          <button onClick={() => router.reload()} className="ml-1 underline font-medium">
+            Reload
+          </button>
+        )}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+// /components/OutboxIndicator.tsx
+import { useCallback, useEffect, useState } from 'react';
+import { CloudOff, UploadCloud, RefreshCw, Trash2, X } from 'lucide-react';
+import {
+  flushOutbox,
+  isOutboxSupported,
+  listOutbox,
+  OUTBOX_CHANGED,
+  OutboxEntry,
+  removeFromOutbox,
+} from '../utils/outbox';
+
+const formatCaptured = (capturedAt: string) =>
+  new Date(capturedAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Shows recordings still waiting in the outbox, and sends them whenever the
+// app opens or the connection comes back
+export default function OutboxIndicator() {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [open, setOpen] = useState(false);
+  const [online, setOnline] = useState(true);
+  const [flushing, setFlushing] = useState(false);
+
+  const refresh = useCallback(() => {
+    listOutbox().then(setEntries).catch(console.error);
+  }, []);
+
+  const flush = useCallback((includeFailed = false) => {
+    setFlushing(true);
+    flushOutbox({ includeFailed }).finally(() => {
+      setFlushing(false);
+      refresh();
+    });
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!isOutboxSupported()) return;
+    setOnline(navigator.onLine);
+    refresh();
+    flush();
+
+    const handleOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const handleOffline = () => setOnline(false);
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'outbox-flush') flush();
+      // Pass the service worker's changes on to anything else watching
+      if (event.data?.type === 'outbox-changed') window.dispatchEvent(new Event(OUTBOX_CHANGED));
+    };
+
+    window.addEventListener(OUTBOX_CHANGED, refresh);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    return () => {
+      window.removeEventListener(OUTBOX_CHANGED, refresh);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    };
+  }, [refresh, flush]);
+
+  if (entries.length === 0) return null;
+
+  const failed = entries.filter((e) => e.lastError).length;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 flex flex-col items-end space-y-2 no-print">
+      {open && (
+        <div className="w-80 bg-white rounded-xl shadow-xl border border-gray-200 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+            <h3 className="font-semibold text-gray-900">Pending uploads</h3>
+            <button
+              onClick={() => setOpen(false)}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <li key={entry.id} className="flex items-start justify-between px-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-900">
+                    {entry.files.length ? 'Recorded' : 'Written'} {formatCaptured(entry.capturedAt)}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {entry.files.length
+                      ? `${entry.files.length} file${entry.files.length !== 1 ? 's' : ''}`
+                      : entry.text}
+                  </p>
+                  {entry.lastError && <p className="text-xs text-red-600">{entry.lastError}</p>}
+                </div>
+                {entry.lastError && (
+                  <button
+                    onClick={() => {
+                      if (confirm('Discard this recording? It has not been uploaded.')) {
+                        removeFromOutbox(entry.id).catch(console.error);
+                      }
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded"
+                    title="Discard"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <div className="px-4 py-3 border-t border-gray-100">
+            <button
+              onClick={() => flush(true)}
+              disabled={flushing || !online}
+              className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded-lg transition-colors"
+            >
+              <RefreshCw className={`w-4 h-4 ${flushing ? 'animate-spin' : ''}`} />
+              <span>{online ? 'Retry now' : 'Waiting for connection'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className={`flex items-center space-x-2 px-4 py-2 rounded-full shadow-lg text-sm font-medium ${
+          failed ? 'bg-red-600 text-white' : 'bg-amber-500 text-white'
+        }`}
+      >
+        {online ? <UploadCloud className="w-4 h-4" /> : <CloudOff className="w-4 h-4" />}
+        <span>
+          {entries.length} pending upload{entries.length !== 1 ? 's' : ''}
+        </span>
+      </button>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 // /components/ProjectCard.tsx
-import { Mic, Camera, Clock, ChevronRight, Plus } from 'lucide-react';
+import { Mic, Camera, Clock, ChevronRight, Plus, ShieldAlert } from 'lucide-react';
+import type { SafetyFlag } from '../types';
 
 interface Note {
   id: string;
@@ -10,6 +11,7 @@ interface Note {
   transcription?: string;
   summary?: string;
   duration?: number;
+  flags?: SafetyFlag[];
 }
 
 interface Project {
@@ -42,6 +44,7 @@ export default function ProjectCard({ project, onClick, colorClass }: ProjectCar
   // Calculate stats
   const audioCount = project.notes.filter(n => n.audio).length;
   const imageCount = project.notes.reduce((acc, n) => acc + (n.images?.length || 0), 0);
+  const flaggedCount = project.notes.filter(n => n.flags && n.flags.length > 0).length;
   
   // Get most recent activity
   const lastActivity = project.notes.length > 0 
@@ -95,6 +98,15 @@ export default function ProjectCard({ project, onClick, colorClass }: ProjectCar
               <Camera className="w-4 h-4" />
               <span className="text-sm font-medium">{imageCount}</span>
             </div>
+            {flaggedCount > 0 && (
+              <div
+                title={`${flaggedCount} note${flaggedCount !== 1 ? 's' : ''} flagged for safety`}
+                className="flex items-center space-x-1 px-2 py-0.5 bg-red-600 rounded-full"
+              >
+                <ShieldAlert className="w-4 h-4" />
+                <span className="text-sm font-medium">{flaggedCount}</span>
+              </div>
+            )}
             {lastActivity && (
               <div className="flex items-center space-x-2">
                 <Clock className="w-4 h-4" />
@@ -115,7 +127,8 @@ export default function ProjectCard({ project, onClick, colorClass }: ProjectCar
             </h4>
             
             {recentNotes.map((note, index) => {
-              const noteText = note.summary || note.transcription || note.text || 'Voice note';
+              const noteText =
+                note.summary || note.transcription || note.text || (note.audio ? 'Voice note' : 'Photo note');
               const truncatedText = noteText.length > 60 ? noteText.slice(0, 60) + '...' : noteText;
               
               return (
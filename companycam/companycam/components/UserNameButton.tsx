@@ -0,0 +1,34 @@
+// /components/UserNameButton.tsx
+import { useEffect, useState } from 'react';
+import { User } from 'lucide-react';
+import { getUserName, setUserName, USER_NAME_CHANGED } from '../utils/actor';
+
+// Shows whose name changes are saved under on this device, and lets them set it
+export default function UserNameButton() {
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    const refresh = () => setName(getUserName());
+    refresh();
+    window.addEventListener(USER_NAME_CHANGED, refresh);
+    return () => window.removeEventListener(USER_NAME_CHANGED, refresh);
+  }, []);
+
+  const handleClick = () => {
+    const entered = window.prompt('Your name, shown in the edit history of notes you change:', name);
+    if (entered !== null) setUserName(entered);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      title={name ? `Changes are saved as ${name}` : 'Set your name for the edit history'}
+      className={`flex items-center space-x-1 p-2 rounded-lg transition-colors ${
+        name ? 'text-gray-600 hover:bg-gray-100' : 'text-amber-600 hover:bg-amber-50'
+      }`}
+    >
+      <User className="w-5 h-5" />
+      <span className="hidden sm:inline text-sm max-w-[8rem] truncate">{name || 'Set your name'}</span>
+    </button>
+  );
+}
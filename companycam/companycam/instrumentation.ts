@@ -0,0 +1,11 @@
+// /instrumentation.ts
+
+// Runs once when the Next.js server starts. Resume the background job queue
+// so uploads that were pending before a restart get processed; the runner
+// also empties old items from the trash.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { ensureJobRunner } = await import('./lib/jobs/runner');
+    ensureJobRunner();
+  }
+}
@@ -0,0 +1,18 @@
+// /lib/actor.ts
+import type { NextApiRequest } from 'next';
+
+// There is no login yet, so callers identify themselves with an optional
+// `X-Actor` header (URI-encoded; the app sends the name saved in
+// utils/actor.ts). Used for audit fields such as `deletedBy`.
+export function getActor(req: NextApiRequest): string | undefined {
+  const header = req.headers['x-actor'];
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) return undefined;
+  let decoded = value;
+  try {
+    decoded = decodeURIComponent(value);
+  } catch {
+    // Not encoded, e.g. "100%" sent by hand
+  }
+  return decoded.trim().slice(0, 100) || undefined;
+}
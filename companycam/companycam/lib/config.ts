@@ -0,0 +1,140 @@
+// /lib/config.ts
+import path from 'path';
+import type { SummarizerKind } from '../types';
+
+// ─── Server-side configuration, read once from the environment ─────────────────
+
+export type StorageKind = 'json' | 'sqlite';
+export type TranscriptionProviderKind = 'faster-whisper' | 'whisper-cpp' | 'openai' | 'none';
+
+export const SUMMARIZERS: SummarizerKind[] = ['extractive', 'llm'];
+
+const TRANSCRIPTION_PROVIDERS: TranscriptionProviderKind[] = [
+  'faster-whisper',
+  'whisper-cpp',
+  'openai',
+  'none',
+];
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+
+function readStorageKind(): StorageKind {
+  const raw = (process.env.DATA_STORE || 'json').toLowerCase();
+  if (raw === 'json' || raw === 'sqlite') return raw;
+  throw new Error(`Unknown DATA_STORE "${raw}" (expected "json" or "sqlite")`);
+}
+
+function readTranscriptionProvider(): TranscriptionProviderKind {
+  // Serverless production builds have no Python or Whisper to call out to
+  const fallback = process.env.NODE_ENV === 'production' ? 'none' : 'faster-whisper';
+  const raw = (process.env.TRANSCRIPTION_PROVIDER || fallback).toLowerCase();
+  const kind = TRANSCRIPTION_PROVIDERS.find((p) => p === raw);
+  if (!kind) {
+    throw new Error(
+      `Unknown TRANSCRIPTION_PROVIDER "${raw}" (expected one of ${TRANSCRIPTION_PROVIDERS.join(', ')})`
+    );
+  }
+  return kind;
+}
+
+function readSummarizer(): SummarizerKind {
+  const raw = (process.env.SUMMARIZER || 'extractive').toLowerCase();
+  const kind = SUMMARIZERS.find((s) => s === raw);
+  if (!kind) {
+    throw new Error(`Unknown SUMMARIZER "${raw}" (expected one of ${SUMMARIZERS.join(', ')})`);
+  }
+  return kind;
+}
+
+function readBoolean(name: string, fallback: boolean): boolean {
+  const raw = (process.env[name] || '').toLowerCase();
+  if (raw === '') return fallback;
+  if (['1', 'true', 'yes', 'on'].includes(raw)) return true;
+  if (['0', 'false', 'no', 'off'].includes(raw)) return false;
+  throw new Error(`${name} must be true or false, got "${process.env[name]}"`);
+}
+
+function readNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`${name} must be a non-negative number, got "${raw}"`);
+  }
+  return value;
+}
+
+export const config = {
+  storage: {
+    kind: readStorageKind(),
+    dataDir: DATA_DIR,
+    jsonFile: path.join(DATA_DIR, 'db.json'),
+    sqliteFile: process.env.DATA_SQLITE_FILE || path.join(DATA_DIR, 'db.sqlite'),
+  },
+  jobs: {
+    maxAttempts: readNumber('JOB_MAX_ATTEMPTS', 3),
+    // Retry n waits retryBaseMs * 2^(n-1)
+    retryBaseMs: readNumber('JOB_RETRY_BASE_MS', 5_000),
+    pollMs: readNumber('JOB_POLL_MS', 1_000),
+    // A running job whose heartbeat is older than this is picked up again
+    staleMs: readNumber('JOB_STALE_MS', 120_000),
+  },
+  transcription: {
+    provider: readTranscriptionProvider(),
+    timeoutMs: readNumber('TRANSCRIPTION_TIMEOUT_MS', 60_000),
+    // Per-word timings on top of per-segment ones; slower, and not every engine has them
+    wordTimestamps: readBoolean('TRANSCRIPTION_WORD_TIMESTAMPS', false),
+    // Label who is speaking (faster-whisper + pyannote.audio only)
+    diarize: readBoolean('TRANSCRIPTION_DIARIZE', false),
+    // Local Whisper engines
+    model: process.env.WHISPER_MODEL_SIZE || 'base',
+    device: process.env.WHISPER_DEVICE || 'cpu',
+    computeType: process.env.WHISPER_COMPUTE_TYPE || 'int8',
+    pythonBin: process.env.PYTHON_BIN || 'python3',
+    whisperCppBin: process.env.WHISPER_CPP_BIN || 'whisper-cli',
+    // Path to a ggml model file; whisper.cpp has no notion of model "sizes"
+    whisperCppModel: process.env.WHISPER_CPP_MODEL || '',
+    ffmpegBin: process.env.FFMPEG_BIN || 'ffmpeg',
+    // Any server implementing OpenAI's POST /audio/transcriptions
+    apiUrl: process.env.TRANSCRIPTION_API_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY || '',
+    apiModel: process.env.TRANSCRIPTION_API_MODEL || 'whisper-1',
+  },
+  summarization: {
+    // Projects can pick their own; this is the default
+    kind: readSummarizer(),
+    // Any server implementing OpenAI's POST /chat/completions
+    apiUrl: process.env.SUMMARY_API_URL || 'https://api.openai.com/v1',
+    apiKey: process.env.SUMMARY_API_KEY || process.env.OPENAI_API_KEY || '',
+    model: process.env.SUMMARY_MODEL || 'gpt-4o-mini',
+    timeoutMs: readNumber('SUMMARY_TIMEOUT_MS', 30_000),
+  },
+  safety: {
+    // JSON array of extra rules; see lib/extraction/safetyRules.ts
+    rulesFile: process.env.SAFETY_RULES_FILE || '',
+    defaultRules: readBoolean('SAFETY_DEFAULT_RULES', true),
+  },
+  redaction: {
+    // People to redact in every project, comma-separated
+    names: (process.env.REDACTION_NAMES || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean),
+  },
+  uploads: {
+    // Resumable uploads in progress; see lib/uploads.ts
+    sessionsDir: process.env.UPLOAD_SESSIONS_DIR || path.join(DATA_DIR, 'upload-sessions'),
+    maxFileBytes: Math.floor(readNumber('UPLOAD_MAX_FILE_MB', 500) * 1024 * 1024),
+    chunkBytes: Math.max(1, Math.floor(readNumber('UPLOAD_CHUNK_MB', 4) * 1024 * 1024)),
+    // Unfinished uploads untouched for this long are deleted
+    sessionTtlHours: readNumber('UPLOAD_SESSION_TTL_HOURS', 48),
+  },
+  reports: {
+    // JSON report templates, one per file; see lib/processing/reportTemplates.ts
+    templatesDir: process.env.REPORT_TEMPLATES_DIR || path.join(process.cwd(), 'report-templates'),
+  },
+  trash: {
+    // Trashed projects/notes older than this are purged along with their media
+    retentionDays: readNumber('TRASH_RETENTION_DAYS', 30),
+  },
+};
@@ -1,54 +1,24 @@
 // /lib/data.ts
-import fs from 'fs';
-import path from 'path';
-import { Project, Note } from '../types';
+import {
+  Project,
+  Note,
+  NoteAttachment,
+  NoteFieldChange,
+  NoteRevision,
+  ProcessingJob,
+  TrashContents,
+} from '../types';
+import { createStorage, ProjectRecord, StorageAdapter } from './storage';
 
-// ─── Setup: location of our on‐disk JSON ────────────────────────────────────────
-const DATA_DIR = path.join(process.cwd(), 'data');
-const DATA_FILE = path.join(DATA_DIR, 'db.json');
+export { StorageError } from './storage';
 
-// In‐memory “cache” of our database. We will read from disk at startup
-// and write back whenever something changes.
-interface DbShape {
-  projects: Record<string, Project>;
-}
-let db: DbShape = { projects: {} };
-
-
-// ─── Helpers to load/save “db” ─────────────────────────────────────────────────
-
-function ensureDataDirExists() {
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
-}
-
-function loadFromDisk(): void {
-  try {
-    const raw = fs.readFileSync(DATA_FILE, 'utf-8');
-    const parsed = JSON.parse(raw) as DbShape;
-    // If the file is well‐formed, overwrite our in‐memory db
-    db = parsed;
-  } catch (e) {
-    // If file does not exist or is invalid JSON, we’ll fallback to empty
-    console.warn('Could not load data/db.json—starting with empty store.');
-    db = { projects: {} };
-  }
-}
-
-function saveToDisk(): void {
-  try {
-    ensureDataDirExists();
-    fs.writeFileSync(DATA_FILE, JSON.stringify(db, null, 2), 'utf-8');
-  } catch (e) {
-    console.error('Failed to save data to disk:', e);
-  }
-}
+// ─── Setup: storage backend chosen via DATA_STORE (json | sqlite) ─────────────
+const store: StorageAdapter = createStorage();
 
 
 // ─── Utility: generate new IDs ─────────────────────────────────────────────────
 
-function generateId(): string {
+export function generateId(): string {
   return (
     Date.now().toString(36) +
     Math.random().toString(36).substr(2, 5)
@@ -56,13 +26,10 @@ function generateId(): string {
 }
 
 
-// ─── Initialize “db” on module load ────────────────────────────────────────────
-
-// 1. Attempt to load an existing data/db.json
-loadFromDisk();
+// ─── Seed demo data on module load ─────────────────────────────────────────────
 
-// 2. If loadFromDisk() gave us an empty “projects” object, populate demo data
-if (Object.keys(db.projects).length === 0) {
+// If the store has no projects yet, populate demo data
+if (store.isEmpty()) {
   // Demo projects:
   const demoProject: Project = {
     id: generateId(),
@@ -91,10 +58,6 @@ if (Object.keys(db.projects).length === 0) {
     lastActivity: new Date().toISOString(),
   };
 
-  db.projects[demoProject.id] = demoProject;
-  db.projects[siteAProject.id] = siteAProject;
-  db.projects[siteBProject.id] = siteBProject;
-
   // Demo note in “Demo Project”:
   const demoNote: Note = {
     id: generateId(),
@@ -106,22 +69,56 @@ if (Object.keys(db.projects).length === 0) {
     duration: 15,
   };
 
-  demoProject.notes.push(demoNote);
-  demoProject.lastActivity = new Date().toISOString();
+  // Persist this initial state in one go
+  store.transaction(() => {
+    [demoProject, siteAProject, siteBProject].forEach(({ notes, ...record }) =>
+      store.putProject(record)
+    );
+    store.putNote(demoProject.id, demoNote);
+  });
+}
+
+
+// ─── Trash helpers ────────────────────────────────────────────────────────────
+// Deleting only stamps deletedAt/deletedBy. Everything in the public API
+// below hides trashed projects and notes unless it is trash-specific.
+
+function withoutTrashed(project: Project): Project {
+  return { ...project, notes: project.notes.filter((n) => !n.deletedAt) };
+}
+
+// Omit deletedBy when unknown: undefined values break Next.js page props
+function trashStamp(deletedBy?: string): { deletedAt: string; deletedBy?: string } {
+  return deletedBy
+    ? { deletedAt: new Date().toISOString(), deletedBy }
+    : { deletedAt: new Date().toISOString() };
+}
+
+function liveProject(id: string): Project | null {
+  const project = store.getProject(id);
+  if (!project || project.deletedAt) return null;
+  return withoutTrashed(project);
+}
 
-  // Finally, persist this initial state to disk
-  saveToDisk();
+// Like liveProject, for callers that only need to know the project is there:
+// its notes are not read
+function liveProjectRecord(id: string): ProjectRecord | null {
+  const record = store.getProjectRecord(id);
+  return record && !record.deletedAt ? record : null;
 }
 
 
 // ─── Public API functions ──────────────────────────────────────────────────────
 
 export function getProject(id: string): Project | null {
-  return db.projects[id] || null;
+  return liveProject(id);
 }
 
 export function getAllProjects(): Project[] {
-  return Object.values(db.projects);
+  return store
+    .listProjects()
+    .filter((p) => !p.deletedAt)
+    .map(withoutTrashed);
 }
 
 export function createProject(
@@ -139,8 +136,7 @@ export function createProject(
     lastActivity: now,
   };
 
-  db.projects[id] = project;
-  saveToDisk();
+  store.putProject(project);
   return project;
 }
 
@@ -148,94 +144,316 @@ export function updateProject(
   id: string,
   updates: Partial<Project>
 ): Project | null {
-  const existing = db.projects[id];
-  if (!existing) return null;
+  return store.transaction(() => {
+    const existing = liveProject(id);
+    if (!existing) return null;
+
+    // Notes are managed through the note functions below, never replaced here
+    const { notes: _notes, id: _id, ...fields } = updates;
+    const { notes, ...record } = existing;
+    const updated = {
+      ...record,
+      ...fields,
+      // Always update lastActivity whenever we change something
+      lastActivity: new Date().toISOString(),
+    };
+
+    store.putProject(updated);
+    return { ...updated, notes };
+  });
+}
 
-  const updated: Project = {
-    ...existing,
-    ...updates,
-    // Always update lastActivity whenever we change something
-    lastActivity: new Date().toISOString(),
-  };
+/** Move a project (and with it all its notes) to the trash. */
+export function deleteProject(id: string, deletedBy?: string): boolean {
+  return store.transaction(() => {
+    const record = liveProjectRecord(id);
+    if (!record) return false;
 
-  db.projects[id] = updated;
-  saveToDisk();
-  return updated;
+    store.putProject({
+      ...record,
+      ...trashStamp(deletedBy),
+    });
+    return true;
+  });
 }
 
-export function deleteProject(id: string): boolean {
-  if (db.projects[id]) {
-    delete db.projects[id];
-    saveToDisk();
-    return true;
-  }
-  return false;
+// Bump a project's lastActivity after one of its notes changed
+function touchProject(record: ProjectRecord): ProjectRecord {
+  const touched = { ...record, lastActivity: new Date().toISOString() };
+  store.putProject(touched);
+  return touched;
 }
 
 export function addNoteToProject(
   projectId: string,
   note: Note
 ): Project | null {
-  const project = db.projects[projectId];
-  if (!project) return null;
+  return store.transaction(() => {
+    const project = liveProject(projectId);
+    if (!project) return null;
 
-  project.notes.push(note);
-  project.lastActivity = new Date().toISOString();
-  saveToDisk();
-  return project;
+    store.putNote(projectId, note);
+    const { notes, ...record } = project;
+    return { ...touchProject(record), notes: [...notes, note] };
+  });
 }
 
+/** Move a note to the trash. Returns the project as it now appears. */
 export function removeNoteFromProject(
   projectId: string,
-  noteId: string
+  noteId: string,
+  deletedBy?: string
 ): Project | null {
-  const project = db.projects[projectId];
-  if (!project) return null;
+  return store.transaction(() => {
+    const project = liveProject(projectId);
+    if (!project) return null;
 
-  const noteIndex = project.notes.findIndex((n) => n.id === noteId);
-  if (noteIndex === -1) return null;
+    const note = project.notes.find((n) => n.id === noteId);
+    if (!note) return null;
 
-  project.notes.splice(noteIndex, 1);
-  project.lastActivity = new Date().toISOString();
-  saveToDisk();
-  return project;
+    store.putNote(projectId, {
+      ...note,
+      ...trashStamp(deletedBy),
+    });
+    const { notes, ...record } = project;
+    return {
+      ...touchProject(record),
+      notes: notes.filter((n) => n.id !== noteId),
+    };
+  });
+}
+
+/** Who processing writes are attributed to in the revision log. */
+export const SYSTEM_ACTOR = 'system';
+
+// Kept up to date by background processing. They describe the job, not the
+// note's content, so they are never recorded as revisions nor restored.
+const PROCESSING_FIELDS: (keyof Note)[] = [
+  'processingStatus',
+  'transcriptionStatus',
+  'transcriptionError',
+  'jobId',
+];
+
+// Fields whose value differs between the two notes (compared as JSON)
+function diffNote(before: Note, after: Note, fields: (keyof Note)[]): NoteFieldChange[] {
+  return fields
+    .filter((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
 }
 
+/**
+ * Apply `updates` to a note. Every call that changes its content is recorded
+ * in the note's revision log, attributed to `actor` when known; changes to
+ * PROCESSING_FIELDS alone are saved without a revision.
+ */
 export function updateNote(
   projectId: string,
   noteId: string,
-  updates: Partial<Note>
+  updates: Partial<Note>,
+  actor?: string,
+  restoredFrom?: string
 ): Note | null {
-  const project = db.projects[projectId];
-  if (!project) return null;
+  return store.transaction(() => {
+    const project = liveProjectRecord(projectId);
+    if (!project) return null;
+
+    const existingNote = store.getNote(projectId, noteId);
+    if (!existingNote || existingNote.deletedAt) return null;
+
+    const updatedNote: Note = {
+      ...existingNote,
+      ...updates,
+      id: existingNote.id,
+    };
+    // An undefined update clears the field (and keeps page props serialisable)
+    (Object.keys(updatedNote) as (keyof Note)[]).forEach((key) => {
+      if (updatedNote[key] === undefined) delete updatedNote[key];
+    });
 
-  const noteIndex = project.notes.findIndex((n) => n.id === noteId);
-  if (noteIndex === -1) return null;
+    const changes = diffNote(
+      existingNote,
+      updatedNote,
+      Object.keys(updates) as (keyof Note)[]
+    );
+    if (changes.length === 0) return existingNote;
+
+    store.putNote(projectId, updatedNote);
+    const edits = changes.filter(({ field }) => !PROCESSING_FIELDS.includes(field));
+    if (edits.length > 0) {
+      store.addRevision({
+        id: generateId(),
+        projectId,
+        noteId,
+        timestamp: new Date().toISOString(),
+        changes: edits,
+        ...(actor ? { actor } : {}),
+        ...(restoredFrom ? { restoredFrom } : {}),
+      });
+    }
+    touchProject(project);
+    return updatedNote;
+  });
+}
 
-  const existingNote = project.notes[noteIndex];
-  const updatedNote: Note = {
-    ...existingNote,
-    ...updates,
-  };
+/** Every revision of a live note, processing writes included, newest first. */
+export function getNoteRevisions(
+  projectId: string,
+  noteId: string
+): NoteRevision[] | null {
+  if (!getNote(projectId, noteId)) return null;
+  return [...store.listRevisions(projectId, noteId)].reverse();
+}
 
-  project.notes[noteIndex] = updatedNote;
-  project.lastActivity = new Date().toISOString();
-  saveToDisk();
-  return updatedNote;
+// The edits people made, oldest first. Processing writes are left out, and so
+// are processing fields that revisions from before they were kept out of the
+// log still carry.
+function noteHistory(projectId: string, noteId: string): NoteRevision[] {
+  return store
+    .listRevisions(projectId, noteId)
+    .filter((revision) => revision.actor !== SYSTEM_ACTOR)
+    .map((revision) => ({
+      ...revision,
+      changes: revision.changes.filter(({ field }) => !PROCESSING_FIELDS.includes(field)),
+    }))
+    .filter((revision) => revision.changes.length > 0);
+}
+
+/** The edit history shown with a live note, newest first. */
+export function getNoteHistory(
+  projectId: string,
+  noteId: string
+): NoteRevision[] | null {
+  if (!getNote(projectId, noteId)) return null;
+  return noteHistory(projectId, noteId).reverse();
+}
+
+/**
+ * Put back the values a revision from the note's history replaced. This is
+ * itself recorded as a new revision, so a restore can be undone the same
+ * way. Processing fields that older revisions recorded are left as they are:
+ * bringing back "pending" would show the note as processing with no job
+ * behind it.
+ */
+export function restoreNoteRevision(
+  projectId: string,
+  noteId: string,
+  revisionId: string,
+  actor?: string
+): Note | null {
+  return store.transaction(() => {
+    const revision = noteHistory(projectId, noteId).find((r) => r.id === revisionId);
+    if (!revision) return null;
+
+    const previous: Partial<Note> = {};
+    revision.changes.forEach(({ field, before }) => {
+      (previous as Record<string, unknown>)[field] = before;
+    });
+    return updateNote(projectId, noteId, previous, actor, revision.id);
+  });
+}
+
+/**
+ * Tick or untick one of a note's action items. Null when the note or the
+ * item doesn't exist.
+ */
+export function setActionItemDone(
+  projectId: string,
+  noteId: string,
+  itemId: string,
+  done: boolean,
+  actor?: string
+): Note | null {
+  return store.transaction(() => {
+    const note = getNote(projectId, noteId);
+    if (!note?.actionItems?.some((item) => item.id === itemId)) return null;
+
+    const actionItems = note.actionItems.map((item) => {
+      if (item.id !== itemId || item.done === done) return item;
+      const { doneAt, doneBy, ...rest } = item;
+      return done
+        ? { ...rest, done, doneAt: new Date().toISOString(), ...(actor ? { doneBy: actor } : {}) }
+        : { ...rest, done };
+    });
+    return updateNote(projectId, noteId, { actionItems }, actor);
+  });
+}
+
+/**
+ * Add files already in the uploads folder to the end of a note's
+ * attachments. Null when the note doesn't exist.
+ */
+export function addNoteAttachments(
+  projectId: string,
+  noteId: string,
+  files: Omit<NoteAttachment, 'id' | 'addedAt' | 'addedBy'>[],
+  actor?: string
+): Note | null {
+  return store.transaction(() => {
+    const note = getNote(projectId, noteId);
+    if (!note) return null;
+
+    const addedAt = new Date().toISOString();
+    const attachments: NoteAttachment[] = [
+      ...(note.attachments ?? []),
+      ...files.map((file) => ({
+        id: generateId(),
+        ...file,
+        addedAt,
+        ...(actor ? { addedBy: actor } : {}),
+      })),
+    ];
+    return updateNote(projectId, noteId, { attachments }, actor);
+  });
 }
 
 export function getNote(
   projectId: string,
   noteId: string
 ): Note | null {
-  const project = db.projects[projectId];
-  if (!project) return null;
-  return project.notes.find((n) => n.id === noteId) || null;
+  if (!liveProjectRecord(projectId)) return null;
+  const note = store.getNote(projectId, noteId);
+  return note && !note.deletedAt ? note : null;
+}
+
+/**
+ * The note an earlier upload with this idempotency key created, trashed or
+ * not, so a retry never brings back a note the user has since deleted.
+ */
+export function findNoteByIdempotencyKey(projectId: string, key: string): Note | null {
+  return store.findNoteByIdempotencyKey(projectId, key);
+}
+
+/**
+ * Add a note that was just uploaded and queue its processing. If a note with
+ * the same idempotency key exists, that one is returned with `duplicate` set
+ * and nothing is saved. Checking and inserting happen in one transaction, so
+ * two processes handling the same retry can't both create the note. Null
+ * when the project doesn't exist.
+ */
+export function addUploadedNote(
+  projectId: string,
+  fields: Omit<Note, 'id' | 'jobId'>,
+  maxAttempts: number
+): { note: Note; jobId: string; duplicate: boolean } | null {
+  return store.transaction(() => {
+    if (fields.idempotencyKey) {
+      const existing = findNoteByIdempotencyKey(projectId, fields.idempotencyKey);
+      if (existing) return { note: existing, jobId: existing.jobId ?? '', duplicate: true };
+    }
+    if (!liveProjectRecord(projectId)) return null;
+
+    const noteId = generateId();
+    const job = enqueueJob({ type: 'process-upload', projectId, noteId }, maxAttempts);
+    const note: Note = { ...fields, id: noteId, jobId: job.id };
+    if (!addNoteToProject(projectId, note)) return null;
+    return { note, jobId: job.id, duplicate: false };
+  });
 }
 
 export function searchNotes(query: string): { project: Project; note: Note }[] {
   const results: { project: Project; note: Note }[] = [];
-  Object.values(db.projects).forEach((project) => {
+  getAllProjects().forEach((project) => {
     project.notes.forEach((note) => {
       const searchText = [
         note.text ?? '',
@@ -255,24 +473,27 @@ export function searchNotes(query: string): { project: Project; note: Note }[] {
 }
 
 export function getProjectStats(projectId: string) {
-  const project = db.projects[projectId];
+  const project = liveProject(projectId);
   if (!project) return null;
 
   return {
     totalNotes: project.notes.length,
     audioNotes: project.notes.filter((n) => n.audio).length,
     imageNotes: project.notes.filter((n) => n.images && n.images.length > 0).length,
-    transcribedNotes: project.notes.filter((n) => n.transcription).length,
+    transcribedNotes: project.notes.filter((n) => n.transcriptionStatus === 'done').length,
     totalWords: project.notes.reduce((acc, note) => {
       const text = note.summary ?? note.transcription ?? note.text ?? '';
       return acc + text.split(' ').length;
     }, 0),
-    totalDuration: project.notes.reduce((acc, note) => acc + (note.duration ?? 0), 0),
+    // Only real transcriptions know how long the recording was
+    totalDuration: project.notes
+      .filter((n) => n.transcriptionStatus === 'done')
+      .reduce((acc, note) => acc + (note.duration ?? 0), 0),
   };
 }
 
 export function getGlobalStats() {
-  const projects = Object.values(db.projects);
+  const projects = getAllProjects();
 
   return {
     totalProjects: projects.length,
@@ -301,3 +522,205 @@ export function getGlobalStats() {
       .slice(0, 10),
   };
 }
+
+
+// ─── Trash ─────────────────────────────────────────────────────────────────────
+
+export function getTrash(retentionDays: number): TrashContents {
+  const projects = store.listProjects();
+  return {
+    projects: projects.filter((p) => p.deletedAt),
+    notes: projects
+      .filter((p) => !p.deletedAt)
+      .flatMap((p) =>
+        p.notes
+          .filter((n) => n.deletedAt)
+          .map((note) => ({ projectId: p.id, projectName: p.name, note }))
+      ),
+    retentionDays,
+  };
+}
+
+export function restoreProject(id: string): Project | null {
+  return store.transaction(() => {
+    const project = store.getProject(id);
+    if (!project || !project.deletedAt) return null;
+
+    const { notes: _notes, deletedAt: _at, deletedBy: _by, ...record } = project;
+    store.putProject(record);
+    return liveProject(id);
+  });
+}
+
+export function restoreNote(projectId: string, noteId: string): Note | null {
+  return store.transaction(() => {
+    const project = liveProjectRecord(projectId);
+    if (!project) return null;
+
+    const note = store.getNote(projectId, noteId);
+    if (!note || !note.deletedAt) return null;
+
+    const { deletedAt: _at, deletedBy: _by, ...restored } = note;
+    store.putNote(projectId, restored);
+    touchProject(project);
+    return restored;
+  });
+}
+
+/**
+ * Permanently delete projects and notes that were trashed before `cutoff`.
+ * Returns every note removed so the caller can clean up its media files.
+ */
+export function purgeTrashedBefore(cutoff: Date): {
+  projects: Project[];
+  notes: Note[];
+} {
+  const isExpired = (deletedAt?: string) =>
+    !!deletedAt && new Date(deletedAt).getTime() < cutoff.getTime();
+
+  return store.transaction(() => {
+    const purgedProjects: Project[] = [];
+    const purgedNotes: Note[] = [];
+
+    store.listProjects().forEach((project) => {
+      if (isExpired(project.deletedAt)) {
+        store.deleteProject(project.id);
+        purgedProjects.push(project);
+        purgedNotes.push(...project.notes);
+        return;
+      }
+
+      project.notes
+        .filter((n) => isExpired(n.deletedAt))
+        .forEach((note) => {
+          store.deleteNote(project.id, note.id);
+          purgedNotes.push(note);
+        });
+    });
+
+    return { projects: purgedProjects, notes: purgedNotes };
+  });
+}
+
+
+// ─── Background jobs ───────────────────────────────────────────────────────────
+
+export function enqueueJob(
+  fields: Pick<ProcessingJob, 'type' | 'projectId' | 'noteId'>,
+  maxAttempts: number
+): ProcessingJob {
+  const now = new Date().toISOString();
+  const job: ProcessingJob = {
+    ...fields,
+    id: generateId(),
+    status: 'queued',
+    step: 'queued',
+    progress: 0,
+    attempts: 0,
+    maxAttempts,
+    runAfter: now,
+    createdAt: now,
+    updatedAt: now,
+  };
+  store.putJob(job);
+  return job;
+}
+
+// Whether the note's job can still run. A note restored to "pending" before
+// processing fields were left out of restores has no such job.
+function processingInFlight(note: Note): boolean {
+  if (note.processingStatus !== 'pending') return false;
+  const job = note.jobId ? store.getJob(note.jobId) : null;
+  return !!job && job.status !== 'done' && job.status !== 'failed';
+}
+
+/**
+ * Queue a note's stored audio to be processed again, e.g. after a failed
+ * transcription. Returns null if the note is gone, has no audio, or already
+ * has processing in flight.
+ */
+export function requeueNoteProcessing(
+  projectId: string,
+  noteId: string,
+  maxAttempts: number,
+  actor?: string
+): { note: Note; job: ProcessingJob } | null {
+  return store.transaction(() => {
+    const note = getNote(projectId, noteId);
+    if (!note?.audio || processingInFlight(note)) return null;
+
+    const job = enqueueJob({ type: 'process-upload', projectId, noteId }, maxAttempts);
+    const updated = updateNote(
+      projectId,
+      noteId,
+      {
+        processingStatus: 'pending',
+        transcriptionStatus: 'pending',
+        transcriptionError: undefined,
+        jobId: job.id,
+      },
+      actor
+    );
+    return updated ? { note: updated, job } : null;
+  });
+}
+
+export function getJob(id: string): ProcessingJob | null {
+  return store.getJob(id);
+}
+
+export function updateJob(
+  id: string,
+  updates: Partial<ProcessingJob>
+): ProcessingJob | null {
+  return store.transaction(() => {
+    const existing = store.getJob(id);
+    if (!existing) return null;
+
+    const updated: ProcessingJob = {
+      ...existing,
+      ...updates,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+    store.putJob(updated);
+    return updated;
+  });
+}
+
+/**
+ * Atomically take the oldest runnable job: queued or due for retry, or
+ * running with a heartbeat older than `staleMs` (its worker died).
+ */
+export function claimNextJob(staleMs: number): ProcessingJob | null {
+  return store.transaction(() => {
+    const now = Date.now();
+    const runnable = store
+      .listJobs()
+      .filter((job) => {
+        if (job.status === 'queued' || job.status === 'retrying') {
+          return new Date(job.runAfter).getTime() <= now;
+        }
+        if (job.status === 'running') {
+          const beat = new Date(job.heartbeatAt ?? job.updatedAt).getTime();
+          return now - beat > staleMs;
+        }
+        return false;
+      })
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    const next = runnable[0];
+    if (!next) return null;
+
+    const stamp = new Date(now).toISOString();
+    const claimed: ProcessingJob = {
+      ...next,
+      status: 'running',
+      attempts: next.attempts + 1,
+      heartbeatAt: stamp,
+      updatedAt: stamp,
+    };
+    store.putJob(claimed);
+    return claimed;
+  });
+}
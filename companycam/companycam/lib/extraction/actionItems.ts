@@ -0,0 +1,140 @@
+// /lib/extraction/actionItems.ts
+import { ActionItem, TranscriptSegment } from '../../types';
+import { splitSentences } from '../text';
+
+// What extraction finds; ids and done-state are added by the caller
+export type ExtractedActionItem = Pick<ActionItem, 'text' | 'assignee' | 'due' | 'source'>;
+
+// ─── Rules ─────────────────────────────────────────────────────────────────────
+// Deliberately plain keyword rules: predictable, fast, and easy to extend
+// when someone notices a phrase their crew uses that isn't caught.
+
+// Obligations and reminders ("need to", "make sure", "don't forget")
+const OBLIGATION =
+  /\b(?:needs?|needed|has|have|got) to\b|\b(?:must|should|gotta)\b|\bmake sure\b|\b(?:don't|do not) forget\b|\bremember to\b|\bfollow[- ]up\b|\bto[- ]do\b|\bpunch ?list\b/i;
+
+// Sentences that open with an instruction ("Replace the ...", "Please call ...")
+const IMPERATIVE =
+  /^(?:please\s+|also\s+|and\s+|so\s+)?(?:ask|tell|remind|fix|replace|repair|install|reinstall|remove|patch|clean(?: up)?|touch up|redo|re-do|seal|caulk|order|schedule|call|check|get|send|move|add|finish|paint|tape|sand|cut|adjust|tighten|secure|protect|cover|book|confirm)\b/i;
+
+// Someone on the crew committing to something ("Priya will send the RFI")
+const COMMITMENT = /^[A-Z][a-z]+(?:\s+will|\s+is going to|'ll)\b/;
+
+// Deficiencies worth a punch-list entry even without an explicit request
+const DEFICIENCY =
+  /\b(?:deficien\w*|damaged|broken|cracked|leak(?:s|ing)?|stained|missing|defect\w*|not (?:installed|done|finished|complete|to code))\b/i;
+
+const WEEKDAY = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*';
+
+const DUE_PATTERNS: RegExp[] = [
+  new RegExp(
+    `\\b(?:by|before|until|for|on|this|next)\\s+(?:(?:this|next)\\s+)?${WEEKDAY}(?:\\s+(?:morning|afternoon|evening|night))?\\b`,
+    'i'
+  ),
+  new RegExp(
+    `\\b(?:by|before|until)\\s+(?:the\\s+)?(?:end of (?:the\\s+)?(?:day|week|month)|eod|eow|tomorrow|tonight|noon|lunch|\\d{1,2}(?:st|nd|rd|th)|\\d{1,2}[/-]\\d{1,2}(?:[/-]\\d{2,4})?|${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?)\\b`,
+    'i'
+  ),
+  /\b(?:by|before)\s+(?:the\s+)?(?:inspection|walkthrough|walk-through|pour|handover|turnover|close-?in|drywall|insulation)\b/i,
+  /\b(?:today|tomorrow|tonight|asap|as soon as possible|this week|next week|end of (?:the\s+)?(?:day|week|month))\b/i,
+];
+
+const TRADE =
+  '(?:electrician|plumber|framer|drywaller|painter|roofer|mason|carpenter|glazier|insulator|hvac(?: guys?| crew| tech)?|sprinkler fitter|tile setter|(?:[a-z]+ )?(?:sub|subcontractor|subtrade|crew|foreman|super|superintendent|inspector|architect|engineer|owner|client))';
+
+// Capitalised words that start sentences without naming anyone
+const NOT_A_NAME = new Set(
+  `I We You They He She It There This That These Those Someone Somebody Everyone Everybody
+  Let's Lets Also And But So Then Now Um Uh Okay Ok Yeah Please Just Again Today Tomorrow
+  Monday Tuesday Wednesday Thursday Friday Saturday Sunday`.split(/\s+/)
+);
+
+const ASSIGNEE_PATTERNS: { re: RegExp; isName: boolean }[] = [
+  // "ask Mike to", "tell the plumber", "assigned to Priya"
+  {
+    re: new RegExp(
+      `\\b(?:[Aa]sk|[Tt]ell|[Gg]et|[Hh]ave|[Rr]emind|assign(?:ed)? to|for)\\s+(the\\s+(?:[a-z]+\\s)?${TRADE}|[A-Z][a-z]+)\\b`
+    ),
+    isName: true,
+  },
+  // "Mike needs to", "Priya will"
+  {
+    re: /^([A-Z][a-z]+)(?:\s+(?:needs to|has to|should|will|must|is going to|can|to)|'ll)\b/,
+    isName: true,
+  },
+  // Any trade mentioned at all: "fixed by the plumber"
+  { re: new RegExp(`\\b(the\\s+(?:[a-z]+\\s)?${TRADE})\\b`, 'i'), isName: false },
+];
+
+function isActionable(sentence: string): boolean {
+  if (sentence.split(/\s+/).length < 3) return false;
+  if (sentence.trim().endsWith('?')) return false;
+  return (
+    OBLIGATION.test(sentence) ||
+    IMPERATIVE.test(sentence) ||
+    DEFICIENCY.test(sentence) ||
+    (COMMITMENT.test(sentence) && !NOT_A_NAME.has(sentence.split(/\s/)[0]))
+  );
+}
+
+function findDue(sentence: string): string | undefined {
+  for (const re of DUE_PATTERNS) {
+    const match = re.exec(sentence);
+    if (match) return match[0].trim();
+  }
+  return undefined;
+}
+
+function findAssignee(sentence: string): string | undefined {
+  for (const { re, isName } of ASSIGNEE_PATTERNS) {
+    const match = re.exec(sentence);
+    const who = match?.[1]?.trim();
+    if (!who) continue;
+    if (isName && NOT_A_NAME.has(who)) continue;
+    return who.replace(/^The\b/, 'the');
+  }
+  return undefined;
+}
+
+// ─── Extraction ────────────────────────────────────────────────────────────────
+
+/**
+ * Pull action items out of a transcript. With segments, each item points at
+ * the segment it was said in; otherwise only the text is used.
+ */
+export function extractActionItems(
+  text: string,
+  segments?: TranscriptSegment[]
+): ExtractedActionItem[] {
+  const pieces: { sentence: string; source?: ExtractedActionItem['source'] }[] = segments?.length
+    ? segments.flatMap((segment) =>
+        splitSentences(segment.text).map((sentence) => ({
+          sentence,
+          source: { start: segment.start, end: segment.end },
+        }))
+      )
+    : splitSentences(text).map((sentence) => ({ sentence }));
+
+  const seen = new Set<string>();
+  const items: ExtractedActionItem[] = [];
+
+  for (const { sentence, source } of pieces) {
+    if (!isActionable(sentence)) continue;
+    const key = sentence.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const assignee = findAssignee(sentence);
+    const due = findDue(sentence);
+    items.push({
+      text: sentence,
+      // Optional keys are left out rather than undefined (page props are JSON)
+      ...(assignee ? { assignee } : {}),
+      ...(due ? { due } : {}),
+      ...(source ? { source } : {}),
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,71 @@
+// /lib/extraction/safety.ts
+import { SafetyFlag, SafetySeverity, TranscriptSegment } from '../../types';
+import { splitSentences } from '../text';
+import type { SafetyRule } from './safetyRules';
+
+const SEVERITY_RANK: Record<SafetySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "guardrail* down" → guardrail\w*[\s-]+down
+function termPattern(term: string): string {
+  return term
+    .trim()
+    .split(/[\s-]+/)
+    .map((word) => (word.endsWith('*') ? `${escapeRegExp(word.slice(0, -1))}\\w*` : escapeRegExp(word)))
+    .join('[\\s-]+');
+}
+
+function compile(rule: SafetyRule): RegExp {
+  return new RegExp(`\\b(?:${rule.terms.map(termPattern).join('|')})\\b`, 'i');
+}
+
+interface Passage {
+  sentence: string;
+  source?: SafetyFlag['source'];
+}
+
+/**
+ * Run the safety rules over a note's transcription and typed text. Each rule
+ * flags the note at most once, at its first match; the most severe come first.
+ */
+export function detectHazards(
+  rules: SafetyRule[],
+  transcription?: string,
+  segments?: TranscriptSegment[],
+  text?: string
+): SafetyFlag[] {
+  const passages: Passage[] = [
+    ...(segments?.length
+      ? segments.flatMap((segment) =>
+          splitSentences(segment.text).map((sentence) => ({
+            sentence,
+            source: { start: segment.start, end: segment.end },
+          }))
+        )
+      : splitSentences(transcription ?? '').map((sentence) => ({ sentence }))),
+    ...splitSentences(text ?? '').map((sentence) => ({ sentence })),
+  ];
+
+  const flags: SafetyFlag[] = [];
+  for (const rule of rules) {
+    const re = compile(rule);
+    for (const { sentence, source } of passages) {
+      const match = re.exec(sentence);
+      if (!match) continue;
+      flags.push({
+        rule: rule.id,
+        label: rule.label,
+        severity: rule.severity,
+        match: match[0],
+        excerpt: sentence,
+        ...(source ? { source } : {}),
+      });
+      break;
+    }
+  }
+
+  return flags.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+}
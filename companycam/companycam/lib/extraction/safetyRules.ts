@@ -0,0 +1,203 @@
+// /lib/extraction/safetyRules.ts
+import fs from 'fs';
+import { SafetySeverity } from '../../types';
+
+/**
+ * A hazard to look for. Terms are matched as whole words, case-insensitively;
+ * spaces also match hyphens, and a trailing `*` matches any word ending
+ * ("guardrail*" finds "guardrails").
+ */
+export interface SafetyRule {
+  id: string;
+  label: string;
+  severity: SafetySeverity;
+  terms: string[];
+  /** Only in a rules file: false turns off the built-in rule with this id. */
+  enabled?: boolean;
+}
+
+export const SAFETY_SEVERITIES: SafetySeverity[] = ['low', 'medium', 'high'];
+
+export const DEFAULT_SAFETY_RULES: SafetyRule[] = [
+  {
+    id: 'fall-protection',
+    label: 'Fall protection',
+    severity: 'high',
+    terms: [
+      'fall protection',
+      'fall hazard',
+      'fall arrest',
+      'not tied off',
+      'no harness*',
+      'unprotected edge*',
+      'leading edge',
+    ],
+  },
+  {
+    id: 'open-edge',
+    label: 'Missing guardrail or open edge',
+    severity: 'high',
+    terms: [
+      'missing guardrail*',
+      'no guardrail*',
+      'guardrail* down',
+      'guardrail* removed',
+      'guardrail* were removed',
+      'guardrail* missing',
+      'missing handrail*',
+      'open edge*',
+      'floor opening*',
+      'open shaft',
+      'uncovered hole*',
+    ],
+  },
+  {
+    id: 'excavation',
+    label: 'Trench or excavation',
+    severity: 'high',
+    terms: ['open trench*', 'trench collapse', 'cave in', 'cave-in', 'unshored', 'no shoring', 'excavation*'],
+  },
+  {
+    id: 'electrical',
+    label: 'Electrical',
+    severity: 'high',
+    terms: [
+      'live wire*',
+      'exposed wir*',
+      'energized',
+      'energised',
+      'arc flash',
+      'electric shock',
+      'got shocked',
+      'no lockout',
+      'lockout tagout',
+    ],
+  },
+  {
+    id: 'fire-gas',
+    label: 'Fire, gas or blocked exit',
+    severity: 'high',
+    terms: [
+      'fire hazard',
+      'gas leak',
+      'smell* gas',
+      'hot work',
+      'no fire extinguisher*',
+      'missing fire extinguisher*',
+      'blocked exit*',
+      'blocked egress',
+    ],
+  },
+  {
+    id: 'hazardous-materials',
+    label: 'Hazardous materials',
+    severity: 'high',
+    terms: ['asbestos', 'lead paint', 'silica', 'black mold', 'chemical spill*', 'fuel spill*'],
+  },
+  {
+    id: 'struck-by',
+    label: 'Overhead or struck-by',
+    severity: 'high',
+    terms: ['suspended load*', 'under the load', 'swing radius', 'falling object*', 'dropped object*'],
+  },
+  {
+    id: 'incident',
+    label: 'Injury or near miss',
+    severity: 'high',
+    terms: ['near miss*', 'injur*', 'accident', 'accidents', 'first aid', 'ambulance'],
+  },
+  {
+    id: 'scaffold-ladder',
+    label: 'Scaffold or ladder',
+    severity: 'medium',
+    terms: [
+      'unsafe scaffold*',
+      'untagged scaffold*',
+      'scaffold* not tagged',
+      'red tag*',
+      'missing toe board*',
+      'missing plank*',
+      'damaged ladder*',
+      'broken ladder*',
+      'unsecured ladder*',
+      'ladder* not secured',
+    ],
+  },
+  {
+    id: 'ppe',
+    label: 'Missing PPE',
+    severity: 'medium',
+    terms: [
+      'no hard hat*',
+      'without hard hat*',
+      'without a hard hat',
+      'no ppe',
+      'without ppe',
+      'no safety glasses',
+      'no eye protection',
+      'no hi vis',
+      'no gloves',
+    ],
+  },
+  {
+    id: 'housekeeping',
+    label: 'Slip or trip hazard',
+    severity: 'low',
+    terms: ['trip hazard*', 'tripping hazard*', 'slip hazard*', 'wet floor*', 'icy', 'poor housekeeping'],
+  },
+];
+
+function invalid(file: string, message: string): Error {
+  return new Error(`Invalid safety rules in ${file}: ${message}`);
+}
+
+function parseRule(value: unknown, index: number, file: string): SafetyRule {
+  const rule = value as Partial<SafetyRule> | null;
+  const where = `rule ${index + 1}`;
+  if (!rule || typeof rule !== 'object' || typeof rule.id !== 'string' || !rule.id.trim()) {
+    throw invalid(file, `${where} needs an "id"`);
+  }
+  if (rule.enabled === false) {
+    return { id: rule.id, label: rule.id, severity: 'low', terms: [], enabled: false };
+  }
+  if (typeof rule.label !== 'string' || !rule.label.trim()) {
+    throw invalid(file, `${where} ("${rule.id}") needs a "label"`);
+  }
+  if (!SAFETY_SEVERITIES.includes(rule.severity as SafetySeverity)) {
+    throw invalid(file, `${where} ("${rule.id}") severity must be one of ${SAFETY_SEVERITIES.join(', ')}`);
+  }
+  const terms = rule.terms;
+  if (!Array.isArray(terms) || terms.length === 0 || !terms.every((t) => typeof t === 'string' && t.trim())) {
+    throw invalid(file, `${where} ("${rule.id}") needs a non-empty "terms" array of strings`);
+  }
+  return { id: rule.id, label: rule.label, severity: rule.severity as SafetySeverity, terms };
+}
+
+/**
+ * The built-in rules (unless `includeDefaults` is false) combined with those
+ * in `file`, a JSON array of rules. A file rule with the same id as a
+ * built-in one replaces it. Throws if the file can't be read or is malformed.
+ */
+export function loadSafetyRules(file: string, includeDefaults: boolean): SafetyRule[] {
+  const rules = new Map<string, SafetyRule>(
+    includeDefaults ? DEFAULT_SAFETY_RULES.map((rule) => [rule.id, rule]) : []
+  );
+  if (!file) return [...rules.values()];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (e) {
+    throw invalid(file, e instanceof Error ? e.message : String(e));
+  }
+  if (!Array.isArray(parsed)) {
+    throw invalid(file, 'expected a JSON array of rules');
+  }
+
+  parsed.forEach((value, index) => {
+    const rule = parseRule(value, index, file);
+    if (rule.enabled === false) rules.delete(rule.id);
+    else rules.set(rule.id, rule);
+  });
+  return [...rules.values()];
+}
@@ -0,0 +1,43 @@
+// /lib/jobs/events.ts
+import { EventEmitter } from 'events';
+import { JobProgressEvent, ProcessingJob } from '../../types';
+
+// In-process fan-out of live job progress to SSE subscribers. Only the
+// process running a job sees its fine-grained events; other processes fall
+// back to the (coarser) state persisted in the store.
+const globalForEvents = globalThis as typeof globalThis & { __jobEvents?: EventEmitter };
+
+function bus(): EventEmitter {
+  if (!globalForEvents.__jobEvents) {
+    globalForEvents.__jobEvents = new EventEmitter();
+    // One listener per open SSE connection
+    globalForEvents.__jobEvents.setMaxListeners(0);
+  }
+  return globalForEvents.__jobEvents;
+}
+
+export function toProgressEvent(job: ProcessingJob): JobProgressEvent {
+  return {
+    jobId: job.id,
+    status: job.status,
+    step: job.step,
+    progress: job.progress,
+    message: job.message ?? '',
+    ...(job.error ? { error: job.error } : {}),
+  };
+}
+
+export function publishJobEvent(event: JobProgressEvent): void {
+  bus().emit(event.jobId, event);
+}
+
+/** Returns an unsubscribe function. */
+export function subscribeToJob(
+  jobId: string,
+  listener: (event: JobProgressEvent) => void
+): () => void {
+  bus().on(jobId, listener);
+  return () => {
+    bus().off(jobId, listener);
+  };
+}
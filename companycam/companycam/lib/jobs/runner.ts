@@ -0,0 +1,165 @@
+// /lib/jobs/runner.ts
+import { config } from '../config';
+import { claimNextJob, getJob, updateJob } from '../data';
+import { JobStep, ProcessingJob } from '../../types';
+import { processUpload, onUploadFailed } from '../processing/processUpload';
+import { runTrashPurge } from '../trash';
+import { publishJobEvent, toProgressEvent } from './events';
+
+/**
+ * Lets a handler publish which step it is on. Every call is streamed to live
+ * subscribers; the store is only written on step changes (and at most every
+ * few seconds otherwise), which also refreshes the heartbeat.
+ */
+export type JobReporter = (step: JobStep, progress: number, message: string) => void;
+
+export interface JobHandler {
+  run(job: ProcessingJob, report: JobReporter): Promise<void>;
+  /** Called once, after the final attempt has failed. */
+  onFailed?(job: ProcessingJob, error: Error): void;
+}
+
+const HANDLERS: Record<ProcessingJob['type'], JobHandler> = {
+  'process-upload': { run: processUpload, onFailed: onUploadFailed },
+};
+
+// One runner per server process. Jobs are claimed through the store, so
+// several processes can share the queue without running a job twice.
+interface RunnerState {
+  timer: NodeJS.Timeout | null;
+  busy: boolean;
+  lastTrashPurge: number;
+}
+
+const globalForRunner = globalThis as typeof globalThis & { __jobRunner?: RunnerState };
+
+function state(): RunnerState {
+  if (!globalForRunner.__jobRunner) {
+    globalForRunner.__jobRunner = { timer: null, busy: false, lastTrashPurge: 0 };
+  }
+  return globalForRunner.__jobRunner;
+}
+
+// Whisper reports once per segment; don't turn that into a write per segment
+const PERSIST_PROGRESS_MS = 2_000;
+
+// Persist a job change and tell live subscribers about it
+function setJob(id: string, updates: Partial<ProcessingJob>): void {
+  const job = updateJob(id, updates);
+  if (job) publishJobEvent(toProgressEvent(job));
+}
+
+function backoffMs(attempts: number): number {
+  return config.jobs.retryBaseMs * 2 ** Math.max(0, attempts - 1);
+}
+
+async function runJob(job: ProcessingJob): Promise<void> {
+  const handler = HANDLERS[job.type];
+
+  let lastStep: JobStep | null = null;
+  let lastPersisted = 0;
+  const report: JobReporter = (step, progress, message) => {
+    const now = Date.now();
+    if (step !== lastStep || now - lastPersisted >= PERSIST_PROGRESS_MS) {
+      lastStep = step;
+      lastPersisted = now;
+      setJob(job.id, { step, progress, message, heartbeatAt: new Date(now).toISOString() });
+    } else {
+      publishJobEvent({ jobId: job.id, status: 'running', step, progress, message });
+    }
+  };
+
+  publishJobEvent(toProgressEvent(job));
+
+  // Keep the heartbeat fresh during long steps such as transcription
+  const heartbeat = setInterval(() => {
+    try {
+      updateJob(job.id, { heartbeatAt: new Date().toISOString() });
+    } catch (e) {
+      console.warn(`Job ${job.id}: heartbeat failed`, e);
+    }
+  }, Math.max(1_000, config.jobs.staleMs / 4));
+
+  try {
+    await handler.run(job, report);
+    setJob(job.id, {
+      status: 'done',
+      step: 'done',
+      progress: 100,
+      message: 'Finished',
+      error: undefined,
+    });
+  } catch (e) {
+    const error = e instanceof Error ? e : new Error(String(e));
+    console.error(`Job ${job.id} attempt ${job.attempts}/${job.maxAttempts} failed:`, error);
+
+    if (job.attempts >= job.maxAttempts) {
+      setJob(job.id, { status: 'failed', error: error.message, message: 'Processing failed' });
+      handler.onFailed?.(getJob(job.id) ?? job, error);
+    } else {
+      const delay = backoffMs(job.attempts);
+      setJob(job.id, {
+        status: 'retrying',
+        error: error.message,
+        message: `Retrying in ${Math.round(delay / 1000)}s (attempt ${job.attempts + 1} of ${job.maxAttempts})`,
+        runAfter: new Date(Date.now() + delay).toISOString(),
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// The trash is emptied from here as well as by /api/trash/purge, so a
+// self-hosted server needs no cron. Retention is counted in days; hourly is
+// plenty.
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+function purgeTrashIfDue(): void {
+  const s = state();
+  if (Date.now() - s.lastTrashPurge < TRASH_PURGE_INTERVAL_MS) return;
+  s.lastTrashPurge = Date.now();
+  try {
+    const result = runTrashPurge();
+    if (result.projects || result.notes) {
+      console.log(`Trash purge: ${result.projects} projects, ${result.notes} notes`);
+    }
+  } catch (e) {
+    console.error('Trash purge failed:', e);
+  }
+}
+
+// Drain every runnable job, one at a time (transcription is CPU-bound)
+async function tick(): Promise<void> {
+  purgeTrashIfDue();
+  const s = state();
+  if (s.busy) return;
+  s.busy = true;
+  try {
+    let job = claimNextJob(config.jobs.staleMs);
+    while (job) {
+      await runJob(job);
+      job = claimNextJob(config.jobs.staleMs);
+    }
+  } catch (e) {
+    console.error('Job runner error:', e);
+  } finally {
+    s.busy = false;
+  }
+}
+
+/** Start polling the queue in this process, if not already running. */
+export function ensureJobRunner(): void {
+  const s = state();
+  if (s.timer) return;
+  s.timer = setInterval(() => void tick(), config.jobs.pollMs);
+  // Don't keep a process alive just for the poller
+  s.timer.unref?.();
+  void tick();
+}
+
+/** Check the queue right away, e.g. just after enqueueing. */
+export function kickJobRunner(): void {
+  ensureJobRunner();
+  void tick();
+}
@@ -0,0 +1,54 @@
+// /lib/media.ts
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { Note } from '../types';
+
+// Are we in production on Vercel?
+export const isProd = process.env.NODE_ENV === 'production';
+
+// Choose an upload folder that’s writable:
+const baseDir = isProd ? os.tmpdir() : path.join(process.cwd(), 'public');
+export const uploadDir = path.join(baseDir, 'uploads');
+export const reportsDir = path.join(baseDir, 'reports');
+
+// Create the folders if they don’t exist yet
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+if (!fs.existsSync(reportsDir)) {
+  fs.mkdirSync(reportsDir, { recursive: true });
+}
+
+/** A note's rendered PDFs: reports/<noteId>.pdf and cached reports/<noteId>.<key>.pdf. */
+export function noteReportPaths(noteId: string): string[] {
+  return fs
+    .readdirSync(reportsDir)
+    .filter((name) => name.startsWith(`${noteId}.`) && name.endsWith('.pdf'))
+    .map((name) => path.join(reportsDir, name));
+}
+
+/** A note's photos on disk: those it was created with, then attached ones. */
+export function notePhotoPaths(note: Note): string[] {
+  const attached = (note.attachments ?? []).filter((a) => a.kind === 'image').map((a) => a.file);
+  return [...(note.images ?? []), ...attached].map((f) => path.join(uploadDir, path.basename(f)));
+}
+
+/** Every file on disk that belongs to a note: uploads, attachments and its PDF reports. */
+export function noteMediaPaths(note: Note): string[] {
+  const uploads = [note.audio, ...(note.images ?? []), ...(note.attachments ?? []).map((a) => a.file)]
+    .filter((f): f is string => !!f)
+    .map((f) => path.join(uploadDir, path.basename(f)));
+  return [...uploads, ...noteReportPaths(note.id)];
+}
+
+/** Delete a note's files, ignoring ones that are already gone. */
+export function removeNoteMedia(note: Note): void {
+  noteMediaPaths(note).forEach((file) => {
+    try {
+      fs.rmSync(file, { force: true });
+    } catch (e) {
+      console.warn(`Could not remove ${file}:`, e);
+    }
+  });
+}
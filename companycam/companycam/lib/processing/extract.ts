@@ -0,0 +1,54 @@
+// /lib/processing/extract.ts
+import { ActionItem, Note, SafetyFlag } from '../../types';
+import { config } from '../config';
+import { generateId } from '../data';
+import { extractActionItems } from '../extraction/actionItems';
+import { detectHazards } from '../extraction/safety';
+import { loadSafetyRules, SafetyRule } from '../extraction/safetyRules';
+
+// Read once; a bad rules file fails the first note that needs it, loudly
+let safetyRules: SafetyRule[] | null = null;
+
+/**
+ * Action items for a note's transcription (or typed text). Items that were
+ * already on the note keep their id and checked state when the same
+ * sentence is found again. Undefined when there are none, which clears the field.
+ */
+export function extractNoteActionItems(
+  note: Pick<Note, 'transcription' | 'text' | 'segments' | 'actionItems'>
+): ActionItem[] | undefined {
+  const source = note.transcription?.trim() || note.text?.trim();
+  if (!source) return undefined;
+
+  const previous = new Map(
+    (note.actionItems ?? []).map((item) => [item.text.toLowerCase(), item])
+  );
+  const items = extractActionItems(source, note.transcription ? note.segments : undefined).map(
+    (found): ActionItem => {
+      const earlier = previous.get(found.text.toLowerCase());
+      return earlier
+        ? { ...found, id: earlier.id, done: earlier.done, ...doneStamp(earlier) }
+        : { ...found, id: generateId(), done: false };
+    }
+  );
+  return items.length ? items : undefined;
+}
+
+function doneStamp(item: ActionItem): Pick<ActionItem, 'doneAt' | 'doneBy'> {
+  return {
+    ...(item.doneAt ? { doneAt: item.doneAt } : {}),
+    ...(item.doneBy ? { doneBy: item.doneBy } : {}),
+  };
+}
+
+/**
+ * Safety flags for a note's transcription and typed text. Undefined when
+ * nothing matched, which clears the field.
+ */
+export function flagNoteHazards(
+  note: Pick<Note, 'transcription' | 'text' | 'segments'>
+): SafetyFlag[] | undefined {
+  safetyRules ??= loadSafetyRules(config.safety.rulesFile, config.safety.defaultRules);
+  const flags = detectHazards(safetyRules, note.transcription, note.segments, note.text);
+  return flags.length ? flags : undefined;
+}
@@ -0,0 +1,86 @@
+// /lib/processing/notePdf.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Note, Project, ReportTemplate } from '../../types';
+import { config } from '../config';
+import { getNoteRevisions } from '../data';
+import { notePhotoPaths, noteReportPaths, reportsDir } from '../media';
+import { generatePdfReport } from './pdf';
+import { noteForReport } from './redact';
+import { getReportTemplate } from './reportTemplates';
+
+export interface NotePdf {
+  path: string;
+  /** Changes whenever the PDF would render differently; usable as an ETag. */
+  key: string;
+}
+
+// Renders in progress, by file, so concurrent requests share one
+const rendering = new Map<string, Promise<NotePdf>>();
+
+// The note's latest revision, plus a hash of the project settings that change
+// how it renders without touching the note itself
+function cacheKey(project: Project, note: Note, template: ReportTemplate): string {
+  const revision = getNoteRevisions(project.id, note.id)?.[0]?.id ?? 'initial';
+  const settings = crypto
+    .createHash('sha1')
+    .update(
+      JSON.stringify([
+        project.name,
+        template,
+        !!project.settings?.redactReports,
+        project.settings?.redactNames ?? [],
+        config.redaction.names,
+      ])
+    )
+    .digest('hex')
+    .slice(0, 12);
+  return `${revision}-${settings}`;
+}
+
+async function render(
+  project: Project,
+  note: Note,
+  template: ReportTemplate,
+  pdf: NotePdf
+): Promise<NotePdf> {
+  const images = notePhotoPaths(note);
+  // Render beside the final file so a half-written PDF is never served
+  const partial = `${pdf.path}.${process.pid}.partial`;
+  try {
+    await generatePdfReport(noteForReport(note, project), project.name, images, partial, {
+      redacted: !!project.settings?.redactReports,
+      template,
+    });
+    fs.renameSync(partial, pdf.path);
+  } catch (err) {
+    fs.rmSync(partial, { force: true });
+    throw err;
+  }
+
+  // Older renders of the note are stale now
+  noteReportPaths(note.id)
+    .filter((file) => file !== pdf.path)
+    .forEach((file) => fs.rmSync(file, { force: true }));
+  return pdf;
+}
+
+/**
+ * The note's PDF as its current data and the project's report settings would
+ * render it, cached as reports/<noteId>.<key>.pdf. An edit to the note or to
+ * those settings changes the key, so the next call renders afresh.
+ */
+export async function getNotePdf(project: Project, note: Note): Promise<NotePdf> {
+  const template = getReportTemplate(project.settings?.reportTemplate);
+  const key = cacheKey(project, note, template);
+  const pdf = { path: path.join(reportsDir, `${note.id}.${key}.pdf`), key };
+  if (fs.existsSync(pdf.path)) return pdf;
+
+  let pending = rendering.get(pdf.path);
+  if (!pending) {
+    pending = render(project, note, template, pdf).finally(() => rendering.delete(pdf.path));
+    rendering.set(pdf.path, pending);
+  }
+  return pending;
+}
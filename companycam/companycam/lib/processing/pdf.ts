@@ -0,0 +1,356 @@
+// /lib/processing/pdf.ts
+import fs from 'fs';
+import path from 'path';
+import PDFDocument from 'pdfkit';
+import { Note, ReportSection, ReportTemplate } from '../../types';
+import { DEFAULT_REPORT_TEMPLATE } from './reportTemplates';
+
+// "Name: text" paragraphs, merging consecutive segments by the same speaker.
+// Null when the note has no speaker labels.
+function speakerTranscript(note: Note): string[] | null {
+  const { segments, speakers } = note;
+  if (!segments?.length || !speakers?.length) return null;
+
+  const nameOf = (id?: string) => speakers.find((s) => s.id === id)?.name ?? 'Unknown speaker';
+  const turns: { speaker?: string; text: string }[] = [];
+  segments.forEach((segment) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, text: segment.text });
+    }
+  });
+  return turns.map((turn) => `${nameOf(turn.speaker)}: ${turn.text}`);
+}
+
+const DEFAULT_LABELS: Record<ReportSection, string> = {
+  safety: 'Safety',
+  text: 'Notes',
+  transcription: 'Transcription',
+  summary: 'Summary',
+  topics: 'Topics',
+  insights: 'Insights',
+  actionItems: 'Action Items',
+  images: 'Photos',
+};
+
+/** Fills {project}, {page} and the like; unknown placeholders are left alone. */
+export function fillPlaceholders(text: string, values: Record<string, string | number>): string {
+  return text.replace(/\{(\w+)\}/g, (match, key: string) =>
+    key in values ? String(values[key]) : match
+  );
+}
+
+/**
+ * A buffered document with the template's fonts registered as "heading" and
+ * "body", so pages can be numbered once the whole report is written.
+ */
+export function createReportDocument(template: ReportTemplate, title: string): PDFKit.PDFDocument {
+  const doc = new PDFDocument({
+    autoFirstPage: true,
+    bufferPages: true,
+    info: { Title: title, ...(template.companyName && { Author: template.companyName }) },
+  });
+  doc.registerFont('heading', template.fonts.heading);
+  doc.registerFont('body', template.fonts.body);
+  doc.font('body').fillColor(template.colors.text);
+  return doc;
+}
+
+export function writeHeading(
+  doc: PDFKit.PDFDocument,
+  template: ReportTemplate,
+  text: string,
+  size = 14
+): void {
+  doc.font('heading').fontSize(size).fillColor(template.colors.primary).text(text);
+  doc.font('body').fillColor(template.colors.text);
+}
+
+/** The logo and company name across the top of the current page. */
+export function writeLetterhead(doc: PDFKit.PDFDocument, template: ReportTemplate): void {
+  if (!template.logo && !template.companyName) return;
+  const left = doc.page.margins.left;
+  const top = doc.page.margins.top;
+  const width = doc.page.width - left - doc.page.margins.right;
+  if (template.logo) {
+    doc.image(template.logo, left, top, { fit: [160, 50] });
+  }
+  if (template.companyName) {
+    doc
+      .font('heading')
+      .fontSize(12)
+      .fillColor(template.colors.primary)
+      .text(template.companyName, left, top + 18, { width, align: 'right' });
+  }
+  doc
+    .moveTo(left, top + 58)
+    .lineTo(left + width, top + 58)
+    .lineWidth(1)
+    .strokeColor(template.colors.primary)
+    .stroke();
+  doc.font('body').fillColor(template.colors.text);
+  doc.x = left;
+  doc.y = top + 72;
+}
+
+/**
+ * The template's header and footer on every page from `firstPage` on. Call
+ * last: it needs the page count.
+ */
+export function writePageFurniture(
+  doc: PDFKit.PDFDocument,
+  template: ReportTemplate,
+  values: Record<string, string>,
+  firstPage = 0
+): void {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start + firstPage; i < start + count; i++) {
+    doc.switchToPage(i);
+    const pageValues = { ...values, page: i + 1, pages: count };
+    const left = doc.page.margins.left;
+    const width = doc.page.width - left - doc.page.margins.right;
+    // Writing inside the margins would otherwise start a new page
+    const { top, bottom } = doc.page.margins;
+    doc.page.margins.top = 0;
+    doc.page.margins.bottom = 0;
+    doc.font('body').fontSize(9).fillColor(template.colors.muted);
+    if (template.header) {
+      doc.text(fillPlaceholders(template.header, pageValues), left, top / 2, {
+        width,
+        align: 'center',
+        lineBreak: false,
+      });
+    }
+    if (template.footer) {
+      doc.text(fillPlaceholders(template.footer, pageValues), left, doc.page.height - bottom / 2, {
+        width,
+        align: 'center',
+        lineBreak: false,
+      });
+    }
+    doc.page.margins.top = top;
+    doc.page.margins.bottom = bottom;
+  }
+  doc.fillColor(template.colors.text);
+}
+
+/** The template's sections of one note, in its order; photos are read from `images`. */
+export function writeNoteBody(
+  doc: PDFKit.PDFDocument,
+  note: Note,
+  template: ReportTemplate,
+  images: string[] = []
+): void {
+  const label = (section: ReportSection) => template.labels?.[section] ?? DEFAULT_LABELS[section];
+  const section = (name: ReportSection) => {
+    writeHeading(doc, template, label(name));
+    doc.moveDown(0.25);
+    doc.fontSize(12);
+  };
+
+  template.sections.forEach((name) => {
+    switch (name) {
+      case 'safety':
+        if (!note.flags?.length) return;
+        section(name);
+        doc.fillColor('#b91c1c');
+        note.flags.forEach((flag) => {
+          doc.text(`[${flag.severity.toUpperCase()}] ${flag.label}: "${flag.excerpt}"`);
+        });
+        doc.fillColor(template.colors.text);
+        break;
+
+      case 'text':
+        if (!note.text) return;
+        section(name);
+        doc.text(note.text);
+        break;
+
+      case 'transcription': {
+        // Typed and photo notes have nothing to transcribe
+        if (!note.audio && !note.transcription) return;
+        section(name);
+        const bySpeaker = speakerTranscript(note);
+        if (bySpeaker) {
+          bySpeaker.forEach((line) => {
+            doc.text(line);
+            doc.moveDown(0.25);
+          });
+        } else {
+          doc.text(note.transcription || '— no transcription —');
+        }
+        break;
+      }
+
+      case 'summary':
+        if (!note.summary && !note.audio && !note.text) return;
+        section(name);
+        doc.text(note.summary || '— no summary —');
+        break;
+
+      case 'topics':
+        if (!note.topics?.length) return;
+        section(name);
+        doc.text(note.topics.join(', '));
+        break;
+
+      case 'insights':
+        if (!note.insights?.length) return;
+        section(name);
+        note.insights.forEach((ins) => doc.text(`• ${ins}`));
+        break;
+
+      case 'actionItems':
+        if (!note.actionItems?.length) return;
+        section(name);
+        note.actionItems.forEach((item) => {
+          const details = [item.assignee, item.due].filter(Boolean).join(', ');
+          doc.text(`${item.done ? '[x]' : '[ ]'} ${item.text}${details ? ` (${details})` : ''}`);
+        });
+        break;
+
+      case 'images':
+        if (images.length === 0) return;
+        section(name);
+        doc.moveDown(0.25);
+        writeImages(
+          doc,
+          images,
+          images.map((image) => note.imageCaptions?.[path.basename(image)]),
+          template
+        );
+        break;
+    }
+    doc.moveDown(0.5);
+  });
+}
+
+/**
+ * Photos two to a row, each over its caption if it has one, starting a new
+ * page whenever a row won't fit.
+ */
+export function writeImages(
+  doc: PDFKit.PDFDocument,
+  fullImagePaths: string[],
+  captions: (string | undefined)[] = [],
+  template: ReportTemplate = DEFAULT_REPORT_TEMPLATE
+): void {
+  const maxW = 250;
+  // Room under each photo for up to three lines of caption
+  const captionH = captions.some(Boolean) ? 36 : 0;
+  const maxH = 250 + captionH;
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+  let x = doc.page.margins.left;
+  let y = doc.y;
+  if (y + maxH > bottom()) {
+    doc.addPage();
+    y = doc.page.margins.top;
+  }
+
+  fullImagePaths.forEach((imgPath, idx) => {
+    try {
+      if (fs.existsSync(imgPath)) {
+        doc.image(imgPath, x, y, { fit: [maxW, maxH - captionH] });
+      }
+    } catch (e) {
+      console.warn(`Could not embed ${imgPath}:`, e);
+    }
+    const caption = captions[idx];
+    if (caption) {
+      doc
+        .font('body')
+        .fontSize(9)
+        .fillColor(template.colors.muted)
+        .text(caption, x, y + maxH - captionH + 4, { width: maxW, height: captionH - 4, ellipsis: true });
+      doc.fillColor(template.colors.text).fontSize(12);
+    }
+    x += maxW + 20;
+    if ((idx + 1) % 2 === 0 && idx + 1 < fullImagePaths.length) {
+      x = doc.page.margins.left;
+      y += maxH + 20;
+      if (y + maxH > bottom()) {
+        doc.addPage();
+        y = doc.page.margins.top;
+      }
+    }
+  });
+  // Leave the cursor under the last row
+  doc.x = doc.page.margins.left;
+  doc.y = Math.min(y + maxH + 20, bottom());
+}
+
+// -------------- PDF GENERATION --------------
+export interface NoteReportOptions {
+  template?: ReportTemplate;
+  redacted?: boolean;
+}
+
+/** One note as a PDF, styled by `options.template`, written to `out`. */
+export function renderNoteReport(
+  note: Note,
+  projectName: string,
+  fullImagePaths: string[],
+  out: NodeJS.WritableStream,
+  options: NoteReportOptions = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    try {
+      const template = options.template ?? DEFAULT_REPORT_TEMPLATE;
+      const values = {
+        project: projectName,
+        company: template.companyName ?? '',
+        date: new Date(note.timestamp).toLocaleDateString('en-US', { dateStyle: 'medium' }),
+      };
+      const doc = createReportDocument(template, `${projectName} – note ${note.id}`);
+      doc.on('end', () => resolve());
+      doc.on('error', reject);
+      doc.pipe(out);
+
+      writeLetterhead(doc, template);
+      writeHeading(doc, template, fillPlaceholders(template.title, values), 18);
+      doc.moveDown(0.5);
+
+      // Metadata
+      doc.fontSize(10).fillColor(template.colors.muted);
+      doc.text(`Note ID: ${note.id}`);
+      doc.text(`Timestamp: ${note.timestamp}`);
+      if (options.redacted) {
+        doc.text('Personal details (names, phone numbers, emails, addresses) have been redacted.');
+      }
+      doc.fillColor(template.colors.text);
+      doc.moveDown(0.5);
+
+      writeNoteBody(doc, note, template, fullImagePaths);
+      writePageFurniture(doc, template, values);
+      doc.end();
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
+
+// Writes the note's PDF to pdfPath and resolves with it
+export async function generatePdfReport(
+  note: Note,
+  projectName: string,
+  fullImagePaths: string[],
+  pdfPath: string,
+  options: NoteReportOptions = {}
+): Promise<string> {
+  const writeStream = fs.createWriteStream(pdfPath);
+  try {
+    await Promise.all([
+      renderNoteReport(note, projectName, fullImagePaths, writeStream, options),
+      new Promise<void>((resolve, reject) => {
+        writeStream.on('finish', resolve);
+        writeStream.on('error', reject);
+      }),
+    ]);
+  } catch (err) {
+    writeStream.destroy();
+    throw err;
+  }
+  return pdfPath;
+}
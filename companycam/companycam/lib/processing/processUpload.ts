@@ -0,0 +1,114 @@
+// /lib/processing/processUpload.ts
+import path from 'path';
+import { getProject, getNote, updateNote, updateJob, SYSTEM_ACTOR } from '../data';
+import { uploadDir } from '../media';
+import { Note, Project, ProcessingJob, TranscriptionResult } from '../../types';
+import type { JobReporter } from '../jobs/runner';
+import { transcribeAudio } from '../transcription';
+import { summarizeNote, summarizeTranscription } from './summarize';
+import { extractNoteActionItems, flagNoteHazards } from './extract';
+import { redactionFields } from './redact';
+import { getNotePdf } from './notePdf';
+
+// A failed transcription is recorded on the note rather than failing the job:
+// it is rarely transient (no speech, unsupported audio, engine missing), and
+// the user can retry it from the note once the cause is fixed. Without a
+// transcription, any typed text is summarised instead.
+async function transcriptionFields(
+  result: TranscriptionResult,
+  project: Project,
+  note: Note
+): Promise<Partial<Note>> {
+  if (result.success) {
+    return {
+      ...(await summarizeTranscription(result, project)),
+      transcriptionStatus: 'done',
+      transcriptionError: undefined,
+    };
+  }
+  return {
+    ...(await summarizeNote(note, project)),
+    transcriptionStatus: result.skipped ? 'skipped' : 'failed',
+    transcriptionError: result.error || 'Transcription failed',
+  };
+}
+
+// Transcribe → summarise → extract action items and safety flags → render the PDF for a freshly uploaded note, or for
+// one whose transcription is being retried.
+// Each step is safe to repeat, and the transcription is cached on the job
+// so a retry after a PDF failure does not run Whisper again.
+export async function processUpload(job: ProcessingJob, report: JobReporter): Promise<void> {
+  const project = getProject(job.projectId);
+  const note = getNote(job.projectId, job.noteId);
+  if (!project || !note) {
+    // Deleted (or never saved) while queued – nothing left to do
+    console.warn(`Job ${job.id}: note ${job.noteId} no longer exists, skipping`);
+    return;
+  }
+
+  let transcription = job.result?.transcription;
+  if (!transcription) {
+    if (note.audio) {
+      report('transcribing', 10, 'Transcribing audio...');
+      const { language, vocabulary, replacements } = project.settings ?? {};
+      transcription = await transcribeAudio(path.join(uploadDir, note.audio), {
+        language,
+        vocabulary,
+        replacements,
+        onProgress: (fraction) => {
+          // Transcription owns the 10–55% band of the overall bar
+          const pct = Math.round(fraction * 100);
+          report('transcribing', 10 + Math.round(fraction * 45), `Transcribing audio... ${pct}%`);
+        },
+      });
+    } else {
+      transcription = { success: false, skipped: true, error: 'Note has no audio' };
+    }
+    updateJob(job.id, { result: { ...job.result, transcription } });
+  }
+
+  report('summarizing', 60, 'Generating summary and insights...');
+  const fields = await transcriptionFields(transcription, project, note);
+
+  report('extracting', 75, 'Looking for action items, hazards and personal details...');
+  if (transcription.success || note.text) {
+    fields.actionItems = extractNoteActionItems({ ...note, ...fields });
+  }
+  // Typed text can mention hazards even when there is nothing transcribed
+  fields.flags = flagNoteHazards({ ...note, ...fields });
+  Object.assign(fields, redactionFields({ ...note, ...fields }, project));
+
+  const updated = updateNote(
+    job.projectId,
+    job.noteId,
+    { ...fields, processingStatus: 'ready' },
+    SYSTEM_ACTOR
+  );
+  if (!updated) return;
+
+  // Warms the cache; the PDF route re-renders whenever the note changes
+  report('rendering-pdf', 85, 'Rendering PDF report...');
+  await getNotePdf(project, updated);
+}
+
+export function onUploadFailed(job: ProcessingJob, error: Error): void {
+  try {
+    const note = getNote(job.projectId, job.noteId);
+    if (note && note.processingStatus !== 'ready') {
+      updateNote(
+        job.projectId,
+        job.noteId,
+        {
+          processingStatus: 'failed',
+          // Don't leave it looking like transcription is still on its way
+          ...(note.transcriptionStatus === 'pending'
+            ? { transcriptionStatus: 'failed', transcriptionError: error.message }
+            : {}),
+        },
+        SYSTEM_ACTOR
+      );
+    }
+  } catch (e) {
+    console.error(`Job ${job.id}: could not mark note as failed after "${error.message}"`, e);
+  }
+}
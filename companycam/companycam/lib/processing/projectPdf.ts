@@ -0,0 +1,213 @@
+// /lib/processing/projectPdf.ts
+import { Note, Project, ReportTemplate, Stats } from '../../types';
+import { notePhotoPaths } from '../media';
+import { formatTime } from '../../utils/time';
+import {
+  createReportDocument,
+  writeHeading,
+  writeLetterhead,
+  writeNoteBody,
+  writePageFurniture,
+} from './pdf';
+import { DEFAULT_REPORT_TEMPLATE } from './reportTemplates';
+
+const TOC_ENTRIES_PER_PAGE = 32;
+const TOC_LINE_HEIGHT = 18;
+
+export interface ProjectReportOptions {
+  /** Describes which notes were picked, e.g. "Safety flagged, 1 May – 31 May". */
+  scope?: string;
+  redacted?: boolean;
+  template?: ReportTemplate;
+}
+
+function formatDate(timestamp: string): string {
+  return new Date(timestamp).toLocaleString('en-US', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+// What the table of contents calls a note: its summary's first line
+function noteTitle(note: Note): string {
+  const text = (note.summary || note.transcription || note.text || 'Voice note').trim();
+  const firstSentence = text.split(/(?<=[.!?])\s/)[0];
+  return firstSentence.length > 80 ? `${firstSentence.slice(0, 77)}...` : firstSentence;
+}
+
+function writeCover(
+  doc: PDFKit.PDFDocument,
+  template: ReportTemplate,
+  project: Project,
+  notes: Note[],
+  stats: Stats,
+  options: ProjectReportOptions
+): void {
+  writeLetterhead(doc, template);
+  doc.moveDown(4);
+  doc.font('heading').fontSize(28).fillColor(template.colors.primary);
+  doc.text(project.name, { align: 'center' });
+  doc.moveDown(0.5);
+  doc.font('body').fontSize(14).fillColor(template.colors.muted).text('Site report', { align: 'center' });
+  if (project.description) {
+    doc.moveDown(0.5);
+    doc.fontSize(12).text(project.description, { align: 'center' });
+  }
+  doc.moveDown(1);
+  doc.fontSize(11).text(`Generated ${formatDate(new Date().toISOString())}`, { align: 'center' });
+  doc.text(
+    `${notes.length} note${notes.length !== 1 ? 's' : ''}${options.scope ? ` – ${options.scope}` : ''}`,
+    { align: 'center' }
+  );
+  if (options.redacted) {
+    doc.text('Personal details have been redacted.', { align: 'center' });
+  }
+  doc.fillColor(template.colors.text);
+
+  // Project-wide numbers, whatever subset the report covers
+  const flagged = notes.filter((n) => n.flags?.length).length;
+  const openItems = notes.reduce(
+    (acc, n) => acc + (n.actionItems ?? []).filter((item) => !item.done).length,
+    0
+  );
+  const rows: [string, string][] = [
+    ['Notes in project', String(stats.totalNotes)],
+    ['Audio notes', String(stats.audioNotes)],
+    ['Notes with photos', String(stats.imageNotes)],
+    ['Transcribed', String(stats.transcribedNotes)],
+    ['Recorded time', formatTime(stats.totalDuration)],
+    ['Words', String(stats.totalWords)],
+    ['Safety-flagged notes in this report', String(flagged)],
+    ['Open action items in this report', String(openItems)],
+  ];
+
+  doc.moveDown(3);
+  doc.font('heading').fontSize(14).fillColor(template.colors.primary);
+  doc.text('Summary', { align: 'center' });
+  doc.font('body').fillColor(template.colors.text);
+  doc.moveDown(0.5);
+  const left = doc.page.margins.left + 100;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right - 200;
+  rows.forEach(([label, value]) => {
+    const y = doc.y;
+    doc.fontSize(12).text(label, left, y, { width: width - 80 });
+    doc.text(value, left + width - 80, y, { width: 80, align: 'right' });
+    doc.moveDown(0.3);
+  });
+  doc.x = doc.page.margins.left;
+}
+
+function writeTableOfContents(
+  doc: PDFKit.PDFDocument,
+  template: ReportTemplate,
+  firstPage: number,
+  entries: { title: string; destination: string; page: number }[]
+): void {
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  entries.forEach((entry, idx) => {
+    const slot = idx % TOC_ENTRIES_PER_PAGE;
+    if (slot === 0) {
+      doc.switchToPage(firstPage + Math.floor(idx / TOC_ENTRIES_PER_PAGE));
+      doc.x = left;
+      doc.y = doc.page.margins.top;
+      writeHeading(doc, template, 'Contents', 18);
+      doc.moveDown(1);
+    }
+    const y = doc.page.margins.top + 50 + slot * TOC_LINE_HEIGHT;
+    doc
+      .fontSize(11)
+      .fillColor(template.colors.primary)
+      .text(entry.title, left, y, {
+        width: width - 50,
+        height: TOC_LINE_HEIGHT,
+        lineBreak: false,
+        ellipsis: true,
+        goTo: entry.destination,
+      });
+    doc.fillColor(template.colors.text).text(String(entry.page), left + width - 40, y, {
+      width: 40,
+      align: 'right',
+    });
+  });
+  if (entries.length === 0) {
+    doc.switchToPage(firstPage);
+    doc.x = left;
+    doc.y = doc.page.margins.top;
+    writeHeading(doc, template, 'Contents', 18);
+    doc.moveDown(1);
+    doc.fontSize(12).text('No notes match this report.');
+  }
+}
+
+/**
+ * Render `notes` of `project` as one PDF into `out`: a cover with summary
+ * statistics, a linked table of contents, then a section per note with its
+ * photos, styled by `options.template`. Notes are printed as given, so redact
+ * them first if needed.
+ */
+export function renderProjectReport(
+  project: Project,
+  notes: Note[],
+  stats: Stats,
+  out: NodeJS.WritableStream,
+  options: ProjectReportOptions = {}
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    try {
+      const template = options.template ?? DEFAULT_REPORT_TEMPLATE;
+      const doc = createReportDocument(template, `${project.name} – site report`);
+      doc.on('end', () => resolve());
+      doc.on('error', reject);
+      doc.pipe(out);
+
+      writeCover(doc, template, project, notes, stats, options);
+
+      // Contents pages are left blank until we know where each note starts
+      const tocFirstPage = 1;
+      const tocPages = Math.max(1, Math.ceil(notes.length / TOC_ENTRIES_PER_PAGE));
+      for (let i = 0; i < tocPages; i++) doc.addPage();
+
+      const entries = notes.map((note, idx) => {
+        doc.addPage();
+        const destination = `note-${note.id}`;
+        const page = doc.bufferedPageRange().count;
+        const title = `${idx + 1}. ${formatDate(note.timestamp)} – ${noteTitle(note)}`;
+
+        doc.outline.addItem(title);
+        doc.font('heading').fontSize(16).fillColor(template.colors.primary);
+        doc.text(`${idx + 1}. ${formatDate(note.timestamp)}`, { destination });
+        doc.font('body');
+        const details = [
+          note.language && note.language !== 'unknown' ? note.language.toUpperCase() : null,
+          note.duration ? formatTime(note.duration) : null,
+          `Note ${note.id}`,
+        ].filter(Boolean);
+        doc.fontSize(10).fillColor(template.colors.muted).text(details.join(' • '));
+        doc.fillColor(template.colors.text);
+        doc.moveDown(0.75);
+
+        const images = notePhotoPaths(note);
+        writeNoteBody(doc, note, template, images);
+        return { title, destination, page };
+      });
+
+      writeTableOfContents(doc, template, tocFirstPage, entries);
+      // Header and footer on every page but the cover
+      writePageFurniture(
+        doc,
+        template,
+        {
+          project: project.name,
+          company: template.companyName ?? '',
+          date: new Date().toLocaleDateString('en-US', { dateStyle: 'medium' }),
+        },
+        1
+      );
+      doc.end();
+    } catch (err) {
+      reject(err);
+    }
+  });
+}
@@ -0,0 +1,28 @@
+// /lib/processing/redact.ts
+import { Note, Project } from '../../types';
+import { config } from '../config';
+import { redactNote } from '../redaction';
+
+function namesFor(project: Pick<Project, 'settings'>): string[] {
+  return [...config.redaction.names, ...(project.settings?.redactNames ?? [])];
+}
+
+/**
+ * The redacted transcription and the audit of what was taken out, to store
+ * on the note. Undefined values clear what an earlier pass stored.
+ */
+export function redactionFields(
+  note: Note,
+  project: Pick<Project, 'settings'>
+): Pick<Note, 'redactedTranscription' | 'redactions'> {
+  const { note: redacted, redactions } = redactNote(note, namesFor(project));
+  return {
+    redactedTranscription: note.transcription ? redacted.transcription : undefined,
+    redactions: redactions.length ? redactions : undefined,
+  };
+}
+
+/** The note as reports should show it: redacted if the project asks for it. */
+export function noteForReport(note: Note, project: Pick<Project, 'settings'>): Note {
+  return project.settings?.redactReports ? redactNote(note, namesFor(project)).note : note;
+}
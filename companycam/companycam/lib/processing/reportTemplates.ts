@@ -0,0 +1,183 @@
+// /lib/processing/reportTemplates.ts
+import fs from 'fs';
+import path from 'path';
+import { ReportSection, ReportTemplate, ReportTemplateSummary } from '../../types';
+import { config } from '../config';
+
+export const REPORT_SECTIONS: ReportSection[] = [
+  'safety',
+  'text',
+  'summary',
+  'topics',
+  'insights',
+  'actionItems',
+  'transcription',
+  'images',
+];
+
+// The 14 fonts every PDF reader has; anything else must be a font file
+const STANDARD_FONTS = [
+  'Courier',
+  'Courier-Bold',
+  'Courier-Oblique',
+  'Courier-BoldOblique',
+  'Helvetica',
+  'Helvetica-Bold',
+  'Helvetica-Oblique',
+  'Helvetica-BoldOblique',
+  'Times-Roman',
+  'Times-Bold',
+  'Times-Italic',
+  'Times-BoldItalic',
+  'Symbol',
+  'ZapfDingbats',
+];
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const TEMPLATE_ID = /^[a-z0-9][a-z0-9-]*$/;
+
+/** Used when a project has no template, or its template has gone. */
+export const DEFAULT_REPORT_TEMPLATE: ReportTemplate = {
+  id: 'default',
+  name: 'Default',
+  title: 'Project: {project}',
+  footer: 'Page {page} of {pages}',
+  colors: { primary: '#111827', text: '#000000', muted: '#6b7280' },
+  fonts: { heading: 'Helvetica-Bold', body: 'Helvetica' },
+  sections: ['safety', 'text', 'transcription', 'summary', 'insights', 'actionItems', 'images'],
+};
+
+function invalid(file: string, message: string): Error {
+  return new Error(`Invalid report template ${file}: ${message}`);
+}
+
+function optionalString(value: unknown, field: string, file: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw invalid(file, `"${field}" must be a string`);
+  return value;
+}
+
+// Font names stay as they are; files are resolved against the templates dir
+function parseFont(value: unknown, field: string, fallback: string, dir: string, file: string): string {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string') throw invalid(file, `"fonts.${field}" must be a string`);
+  if (STANDARD_FONTS.includes(value)) return value;
+  if (!/\.(ttf|otf)$/i.test(value)) {
+    throw invalid(file, `"fonts.${field}" must be one of ${STANDARD_FONTS.join(', ')} or a .ttf/.otf file`);
+  }
+  const fontPath = path.resolve(dir, value);
+  if (!fs.existsSync(fontPath)) throw invalid(file, `font file ${value} not found`);
+  return fontPath;
+}
+
+function parseTemplate(value: unknown, dir: string, file: string): ReportTemplate {
+  const t = value as Record<string, unknown> | null;
+  if (!t || typeof t !== 'object' || Array.isArray(t)) {
+    throw invalid(file, 'expected a JSON object');
+  }
+  if (typeof t.id !== 'string' || !TEMPLATE_ID.test(t.id)) {
+    throw invalid(file, '"id" must be lowercase letters, digits and dashes');
+  }
+  if (typeof t.name !== 'string' || !t.name.trim()) {
+    throw invalid(file, 'needs a "name"');
+  }
+
+  const defaults = DEFAULT_REPORT_TEMPLATE;
+  const colors = (t.colors ?? {}) as Record<string, unknown>;
+  const parsedColors = { ...defaults.colors };
+  for (const key of Object.keys(parsedColors) as (keyof ReportTemplate['colors'])[]) {
+    const color = colors[key];
+    if (color === undefined) continue;
+    if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+      throw invalid(file, `"colors.${key}" must be a hex colour like "#1d4ed8"`);
+    }
+    parsedColors[key] = color;
+  }
+
+  const fonts = (t.fonts ?? {}) as Record<string, unknown>;
+  const sections = t.sections ?? defaults.sections;
+  if (
+    !Array.isArray(sections) ||
+    !sections.every((s) => REPORT_SECTIONS.includes(s)) ||
+    new Set(sections).size !== sections.length
+  ) {
+    throw invalid(file, `"sections" must list each of ${REPORT_SECTIONS.join(', ')} at most once`);
+  }
+
+  let labels: ReportTemplate['labels'];
+  if (t.labels !== undefined) {
+    const entries = Object.entries(t.labels as Record<string, unknown>);
+    if (!entries.every(([key, label]) => REPORT_SECTIONS.includes(key as ReportSection) && typeof label === 'string')) {
+      throw invalid(file, '"labels" must map section names to strings');
+    }
+    labels = Object.fromEntries(entries) as ReportTemplate['labels'];
+  }
+
+  let logo = optionalString(t.logo, 'logo', file);
+  if (logo) {
+    if (!/\.(png|jpe?g)$/i.test(logo)) throw invalid(file, '"logo" must be a PNG or JPEG file');
+    logo = path.resolve(dir, logo);
+    if (!fs.existsSync(logo)) throw invalid(file, `logo ${t.logo} not found`);
+  }
+
+  return {
+    id: t.id,
+    name: t.name.trim(),
+    ...(t.companyName !== undefined && { companyName: optionalString(t.companyName, 'companyName', file) }),
+    ...(logo && { logo }),
+    title: optionalString(t.title, 'title', file) ?? defaults.title,
+    ...(t.header !== undefined && { header: optionalString(t.header, 'header', file) }),
+    footer: optionalString(t.footer, 'footer', file) ?? defaults.footer,
+    colors: parsedColors,
+    fonts: {
+      heading: parseFont(fonts.heading, 'heading', defaults.fonts.heading, dir, file),
+      body: parseFont(fonts.body, 'body', defaults.fonts.body, dir, file),
+    },
+    sections: sections as ReportSection[],
+    ...(labels && { labels }),
+  };
+}
+
+/**
+ * The default template followed by every *.json template in `dir`, sorted by
+ * name. Read afresh on each call so edits show up without a restart. Throws
+ * if a file is malformed or two templates share an id.
+ */
+export function loadReportTemplates(dir: string = config.reports.templatesDir): ReportTemplate[] {
+  const templates = new Map<string, ReportTemplate>();
+  if (fs.existsSync(dir)) {
+    fs.readdirSync(dir)
+      .filter((name) => name.endsWith('.json'))
+      .forEach((name) => {
+        const file = path.join(dir, name);
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        } catch (e) {
+          throw invalid(file, e instanceof Error ? e.message : String(e));
+        }
+        const template = parseTemplate(parsed, dir, file);
+        if (template.id === DEFAULT_REPORT_TEMPLATE.id || templates.has(template.id)) {
+          throw invalid(file, `id "${template.id}" is already in use`);
+        }
+        templates.set(template.id, template);
+      });
+  }
+  const sorted = [...templates.values()].sort((a, b) => a.name.localeCompare(b.name));
+  return [DEFAULT_REPORT_TEMPLATE, ...sorted];
+}
+
+/** The template called `id`, falling back to the default one. */
+export function getReportTemplate(id?: string): ReportTemplate {
+  if (!id) return DEFAULT_REPORT_TEMPLATE;
+  const template = loadReportTemplates().find((t) => t.id === id);
+  if (!template) {
+    console.warn(`Report template "${id}" not found; using the default`);
+    return DEFAULT_REPORT_TEMPLATE;
+  }
+  return template;
+}
+
+export function summarizeTemplate({ id, name, companyName }: ReportTemplate): ReportTemplateSummary {
+  return { id, name, ...(companyName && { companyName }) };
+}
@@ -0,0 +1,47 @@
+// /lib/processing/summarize.ts
+import { Note, Project, SummarizerKind, TranscriptionResult } from '../../types';
+import { summarizeText } from '../summarization';
+
+export type NoteSummary = Pick<Note, 'summary' | 'insights' | 'topics' | 'summarizedBy'>;
+
+export type NoteAnalysis = NoteSummary &
+  Pick<Note, 'transcription' | 'segments' | 'speakers' | 'language' | 'duration'>;
+
+/**
+ * Summarise a note's transcription (or typed text) with the project's
+ * summarizer, unless `kind` overrides it. Null when there is nothing to read.
+ */
+export async function summarizeNote(
+  note: Pick<Note, 'transcription' | 'text'>,
+  project: Pick<Project, 'settings'>,
+  kind?: SummarizerKind
+): Promise<NoteSummary | null> {
+  const source = note.transcription?.trim() || note.text?.trim();
+  if (!source) return null;
+
+  const result = await summarizeText(source, kind ?? project.settings?.summarizer);
+  return {
+    summary: result.summary,
+    insights: result.keyPoints,
+    // undefined clears topics left over from an earlier summary
+    topics: result.topics.length ? result.topics : undefined,
+    summarizedBy: result.summarizedBy,
+  };
+}
+
+// Turn a successful transcription into the fields we store on the note
+export async function summarizeTranscription(
+  transcriptionResult: TranscriptionResult,
+  project: Pick<Project, 'settings'>
+): Promise<NoteAnalysis> {
+  const transcription = transcriptionResult.text || '';
+  return {
+    transcription,
+    // undefined clears timings left over from an earlier transcription
+    segments: transcriptionResult.segments?.length ? transcriptionResult.segments : undefined,
+    speakers: transcriptionResult.speakers?.length ? transcriptionResult.speakers : undefined,
+    language: transcriptionResult.language || 'unknown',
+    duration: transcriptionResult.duration ? Math.round(transcriptionResult.duration) : undefined,
+    ...(await summarizeNote({ transcription }, project)),
+  };
+}
@@ -0,0 +1,138 @@
+// /lib/redaction.ts
+import { Note, Redaction, RedactionKind } from '../types';
+
+// ─── Patterns ──────────────────────────────────────────────────────────────────
+// Tuned for Whisper output: numbers come out as digits, street names capitalised.
+
+const EMAIL = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+
+// 555-123-4567, (555) 123 4567, +1 555.123.4567, 5551234567, 555-1234
+const PHONE =
+  /(?<![\w-])(?:(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\d{3}[\s.-]?)\d{3}[\s.-]?\d{4}|\d{3}-\d{4})(?![\w-])/g;
+
+const STREET_TYPES = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'boulevard', 'blvd', 'drive', 'dr',
+  'lane', 'ln', 'court', 'ct', 'way', 'place', 'pl', 'terrace', 'circle', 'parkway',
+  'pkwy', 'highway', 'hwy',
+];
+
+// "1428 Elm Street", "22 North Shore Dr" – a number, capitalised words, a street type
+const ADDRESS = new RegExp(
+  `\\b\\d{1,6}(?:\\s+[A-Z][\\w'-]*){1,4}?\\s+(?:${STREET_TYPES.map(
+    (t) => `[${t[0].toUpperCase()}${t[0]}]${t.slice(1)}`
+  ).join('|')})\\b`,
+  'g'
+);
+
+const REPLACEMENTS: Record<RedactionKind, string> = {
+  email: '[EMAIL]',
+  phone: '[PHONE]',
+  address: '[ADDRESS]',
+  name: '[NAME]',
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// One pattern for every name, longest first so "Mike Chen" wins over "Mike"
+function namePattern(names: string[]): RegExp | null {
+  const terms = Array.from(new Set(names.map((n) => n.trim()).filter((n) => n.length > 1)))
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.split(/\s+/).map(escapeRegExp).join('\\s+'));
+  return terms.length ? new RegExp(`\\b(?:${terms.join('|')})\\b`, 'gi') : null;
+}
+
+// ─── Redaction ─────────────────────────────────────────────────────────────────
+
+/**
+ * Replace phone numbers, emails, street addresses and the given names in
+ * `text`. Each replacement is reported against `field`.
+ */
+export function redactText(
+  text: string,
+  names: string[],
+  field: string
+): { text: string; redactions: Redaction[] } {
+  const redactions: Redaction[] = [];
+  const patterns: [RedactionKind, RegExp | null][] = [
+    // Emails before phones, so digits in an address don't get split off
+    ['email', EMAIL],
+    ['phone', PHONE],
+    ['address', ADDRESS],
+    ['name', namePattern(names)],
+  ];
+
+  let result = text;
+  for (const [kind, re] of patterns) {
+    if (!re) continue;
+    result = result.replace(re, (match) => {
+      redactions.push({ field, kind, text: match });
+      return REPLACEMENTS[kind];
+    });
+  }
+  return { text: result, redactions };
+}
+
+/**
+ * A copy of `note` with personal details removed from everything a report
+ * prints, and a list of what was removed. Speaker names are always treated
+ * as names to redact, and speakers become "Speaker 1", "Speaker 2"...
+ */
+export function redactNote(
+  note: Note,
+  names: string[]
+): { note: Note; redactions: Redaction[] } {
+  const allNames = [...names, ...(note.speakers ?? []).map((s) => s.name)];
+  const redactions: Redaction[] = [];
+  const redact = (text: string, field: string) => {
+    const result = redactText(text, allNames, field);
+    redactions.push(...result.redactions);
+    return result.text;
+  };
+  // Segments repeat the transcription, so they aren't audited twice
+  const redactQuietly = (text: string) => redactText(text, allNames, 'segments').text;
+
+  const redacted: Note = {
+    ...note,
+    ...(note.transcription !== undefined
+      ? { transcription: redact(note.transcription, 'transcription') }
+      : {}),
+    ...(note.text !== undefined ? { text: redact(note.text, 'text') } : {}),
+    ...(note.summary !== undefined ? { summary: redact(note.summary, 'summary') } : {}),
+    ...(note.insights ? { insights: note.insights.map((i) => redact(i, 'insights')) } : {}),
+    ...(note.segments
+      ? {
+          // Word timings would give the original words back
+          segments: note.segments.map(({ words: _words, ...segment }) => ({
+            ...segment,
+            text: redactQuietly(segment.text),
+          })),
+        }
+      : {}),
+    ...(note.speakers
+      ? { speakers: note.speakers.map((s, idx) => ({ ...s, name: `Speaker ${idx + 1}` })) }
+      : {}),
+    ...(note.actionItems
+      ? {
+          actionItems: note.actionItems.map((item) => ({
+            ...item,
+            text: redact(item.text, 'actionItems'),
+            ...(item.assignee ? { assignee: redact(item.assignee, 'actionItems') } : {}),
+          })),
+        }
+      : {}),
+    ...(note.flags
+      ? { flags: note.flags.map((flag) => ({ ...flag, excerpt: redact(flag.excerpt, 'flags') })) }
+      : {}),
+  };
+
+  const seen = new Set<string>();
+  const unique = redactions.filter((r) => {
+    const key = `${r.field}\u0000${r.kind}\u0000${r.text.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  return { note: redacted, redactions: unique };
+}
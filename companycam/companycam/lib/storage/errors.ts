@@ -0,0 +1,10 @@
+// /lib/storage/errors.ts
+
+// Raised when the backing store cannot be read, locked or written. API
+// routes turn it into a 503 so clients know the change was not saved.
+export class StorageError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'StorageError';
+  }
+}
@@ -0,0 +1,113 @@
+// /lib/storage/fileLock.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import { StorageError } from './errors';
+
+export interface FileLockOptions {
+  /** Give up acquiring after this many milliseconds. */
+  timeoutMs?: number;
+  /** A lock file older than this is assumed to belong to a crashed process. */
+  staleMs?: number;
+  /** Delay between attempts. */
+  retryMs?: number;
+}
+
+const DEFAULTS: Required<FileLockOptions> = {
+  timeoutMs: 10_000,
+  staleMs: 30_000,
+  retryMs: 25,
+};
+
+const sleepCell = new Int32Array(new SharedArrayBuffer(4));
+
+// Blocking sleep: the data API is synchronous, so we cannot await here. It
+// holds up this process's event loop, but a lock is only held for one
+// read-modify-write of the data file, so waits are milliseconds in practice;
+// `timeoutMs` bounds the worst case (a stuck holder).
+function sleepSync(ms: number): void {
+  Atomics.wait(sleepCell, 0, 0, ms);
+}
+
+// Each lock file holds a token unique to its holder, so nobody removes a
+// lock that was taken after they looked at it
+function tryAcquire(lockPath: string, token: string): boolean {
+  try {
+    const fd = fs.openSync(lockPath, 'wx');
+    try {
+      fs.writeSync(fd, JSON.stringify({ pid: process.pid, token, at: new Date().toISOString() }));
+    } finally {
+      fs.closeSync(fd);
+    }
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'EEXIST') return false;
+    throw new StorageError(`Could not create lock file ${lockPath}`, e);
+  }
+}
+
+// The holder's token; '' when the file is missing or not yet written
+function readToken(lockPath: string): string {
+  try {
+    const { token } = JSON.parse(fs.readFileSync(lockPath, 'utf-8')) as { token?: unknown };
+    return typeof token === 'string' ? token : '';
+  } catch {
+    return '';
+  }
+}
+
+// Remove the lock only if it still belongs to `token`
+function unlinkIfHeldBy(lockPath: string, token: string): void {
+  if (readToken(lockPath) !== token) return;
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+  }
+}
+
+function removeIfStale(lockPath: string, staleMs: number): void {
+  try {
+    const token = readToken(lockPath);
+    const { mtimeMs } = fs.statSync(lockPath);
+    if (Date.now() - mtimeMs > staleMs) {
+      console.warn(`Removing stale lock ${lockPath}`);
+      // Another waiter may have removed it and taken a fresh lock meanwhile
+      unlinkIfHeldBy(lockPath, token);
+    }
+  } catch {
+    // Lock vanished between checks – the next attempt will pick it up
+  }
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file, shared by every process
+ * (e.g. each Next.js worker) that points at the same path.
+ */
+export function withFileLock<T>(
+  lockPath: string,
+  fn: () => T,
+  options: FileLockOptions = {}
+): T {
+  const { timeoutMs, staleMs, retryMs } = { ...DEFAULTS, ...options };
+  const deadline = Date.now() + timeoutMs;
+  const token = crypto.randomUUID();
+
+  while (!tryAcquire(lockPath, token)) {
+    if (Date.now() > deadline) {
+      throw new StorageError(`Timed out waiting for lock ${lockPath}`);
+    }
+    removeIfStale(lockPath, staleMs);
+    sleepSync(retryMs);
+  }
+
+  try {
+    return fn();
+  } finally {
+    try {
+      // Not ours any more if it was judged stale and taken over
+      unlinkIfHeldBy(lockPath, token);
+    } catch (e) {
+      console.warn(`Failed to release lock ${lockPath}:`, e);
+    }
+  }
+}
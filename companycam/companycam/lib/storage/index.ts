@@ -0,0 +1,20 @@
+// /lib/storage/index.ts
+import { config } from '../config';
+import { StorageAdapter } from './types';
+import { JsonStorage } from './json';
+
+export type { StorageAdapter, ProjectRecord } from './types';
+export { StorageError } from './errors';
+
+// Picks the backend named by DATA_STORE. The SQLite driver is a native
+// module, so it is only loaded when actually selected.
+export function createStorage(): StorageAdapter {
+  const { kind, jsonFile, sqliteFile } = config.storage;
+
+  if (kind === 'sqlite') {
+    const { SqliteStorage } = require('./sqlite') as typeof import('./sqlite');
+    return new SqliteStorage(sqliteFile, jsonFile);
+  }
+
+  return new JsonStorage(jsonFile);
+}
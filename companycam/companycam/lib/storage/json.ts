@@ -0,0 +1,288 @@
+// /lib/storage/json.ts
+import fs from 'fs';
+import path from 'path';
+import { Project, Note, NoteRevision, ProcessingJob } from '../../types';
+import { StorageAdapter, ProjectRecord } from './types';
+import { StorageError } from './errors';
+import { withFileLock } from './fileLock';
+import {
+  DbShape,
+  CURRENT_SCHEMA_VERSION,
+  assertDbShape,
+  backupPath,
+  migrate,
+  revisionKey,
+  schemaVersionOf,
+} from './migrations';
+
+export type { DbShape } from './migrations';
+
+// Stores everything in a single JSON document. Every mutation runs under a
+// cross-process lock file, reloads the document first so it never works on
+// another worker's stale copy, and commits with an atomic write-rename.
+// Older documents are migrated on load, after copying the original aside.
+export class JsonStorage implements StorageAdapter {
+  readonly kind = 'json' as const;
+
+  private db: DbShape = { schemaVersion: CURRENT_SCHEMA_VERSION, projects: {} };
+  private depth = 0;
+  private dirty = false;
+  private loadedVersion = '';
+
+  private readonly lockFile: string;
+
+  constructor(private readonly file: string) {
+    this.lockFile = `${file}.lock`;
+    // An empty transaction loads (and, if needed, migrates and saves) the
+    // file under the lock. A corrupt file throws here, so the app refuses to
+    // start instead of silently replacing the data.
+    this.transaction(() => undefined);
+  }
+
+  // ─── Disk I/O ──────────────────────────────────────────────────────────────
+
+  // mtime + size identify the on-disk revision we last read
+  private diskVersion(): string {
+    try {
+      const { mtimeMs, size } = fs.statSync(this.file);
+      return `${mtimeMs}:${size}`;
+    } catch {
+      return 'missing';
+    }
+  }
+
+  private load(): void {
+    const version = this.diskVersion();
+    if (version === 'missing') {
+      this.db = { schemaVersion: CURRENT_SCHEMA_VERSION, projects: {} };
+      this.loadedVersion = version;
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.file, 'utf-8'));
+      assertDbShape(parsed);
+    } catch (e) {
+      throw new StorageError(
+        `${this.file} is unreadable or corrupt (${e instanceof Error ? e.message : e}). ` +
+          'Refusing to continue; restore it from a backup or move it aside.',
+        e
+      );
+    }
+
+    this.db = this.upgrade(parsed);
+    this.loadedVersion = version;
+  }
+
+  // Run pending migrations, keeping a copy of the file as it was before
+  private upgrade(parsed: DbShape): DbShape {
+    const fromVersion = schemaVersionOf(parsed);
+    try {
+      if (fromVersion < CURRENT_SCHEMA_VERSION) {
+        const backup = backupPath(this.file, fromVersion);
+        fs.copyFileSync(this.file, backup);
+        console.log(`Backed up ${this.file} to ${backup} before migrating.`);
+      }
+      const { db, applied } = migrate(parsed);
+      if (applied.length > 0) this.dirty = true;
+      return db;
+    } catch (e) {
+      throw new StorageError(
+        `Could not migrate ${this.file}: ${e instanceof Error ? e.message : e}`,
+        e
+      );
+    }
+  }
+
+  // Pick up writes made by other processes since we last looked
+  private refresh(): void {
+    if (this.depth === 0 && this.diskVersion() !== this.loadedVersion) {
+      this.load();
+    }
+  }
+
+  private save(): void {
+    const tmpFile = `${this.file}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const fd = fs.openSync(tmpFile, 'w');
+      try {
+        fs.writeFileSync(fd, JSON.stringify(this.db, null, 2), 'utf-8');
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+      fs.renameSync(tmpFile, this.file);
+      this.loadedVersion = this.diskVersion();
+    } catch (e) {
+      try {
+        fs.rmSync(tmpFile, { force: true });
+      } catch {
+        // Best effort – the original file is still intact
+      }
+      throw new StorageError(`Failed to save ${this.file}`, e);
+    }
+  }
+
+  // Every write goes through a transaction so it is locked and reloaded first
+  private mutate(fn: () => void): void {
+    this.transaction(() => {
+      fn();
+      this.dirty = true;
+    });
+  }
+
+  // ─── StorageAdapter ────────────────────────────────────────────────────────
+
+  isEmpty(): boolean {
+    this.refresh();
+    return Object.keys(this.db.projects).length === 0;
+  }
+
+  getProject(id: string): Project | null {
+    this.refresh();
+    return this.db.projects[id] || null;
+  }
+
+  getProjectRecord(id: string): ProjectRecord | null {
+    const project = this.getProject(id);
+    if (!project) return null;
+    const { notes: _notes, ...record } = project;
+    return record;
+  }
+
+  listProjects(): Project[] {
+    this.refresh();
+    return Object.values(this.db.projects);
+  }
+
+  getNote(projectId: string, noteId: string): Note | null {
+    this.refresh();
+    const project = this.db.projects[projectId];
+    if (!project) return null;
+    return project.notes.find((n) => n.id === noteId) || null;
+  }
+
+  findNoteByIdempotencyKey(projectId: string, key: string): Note | null {
+    const project = this.getProject(projectId);
+    return project?.notes.find((n) => n.idempotencyKey === key) ?? null;
+  }
+
+  putProject(record: ProjectRecord): void {
+    this.mutate(() => {
+      const existing = this.db.projects[record.id];
+      this.db.projects[record.id] = { ...record, notes: existing?.notes ?? [] };
+    });
+  }
+
+  deleteProject(id: string): boolean {
+    let removed = false;
+    this.mutate(() => {
+      const project = this.db.projects[id];
+      if (!project) return;
+      project.notes.forEach((n) => delete this.revisions()[revisionKey(id, n.id)]);
+      delete this.db.projects[id];
+      removed = true;
+    });
+    return removed;
+  }
+
+  putNote(projectId: string, note: Note): void {
+    this.mutate(() => {
+      const project = this.db.projects[projectId];
+      if (!project) throw new StorageError(`Project ${projectId} not found`);
+
+      const index = project.notes.findIndex((n) => n.id === note.id);
+      if (index === -1) {
+        project.notes.push(note);
+      } else {
+        project.notes[index] = note;
+      }
+    });
+  }
+
+  deleteNote(projectId: string, noteId: string): boolean {
+    let removed = false;
+    this.mutate(() => {
+      const project = this.db.projects[projectId];
+      if (!project) return;
+
+      const index = project.notes.findIndex((n) => n.id === noteId);
+      if (index === -1) return;
+
+      project.notes.splice(index, 1);
+      delete this.revisions()[revisionKey(projectId, noteId)];
+      removed = true;
+    });
+    return removed;
+  }
+
+  private revisions(): Record<string, NoteRevision[]> {
+    if (!this.db.revisions) this.db.revisions = {};
+    return this.db.revisions;
+  }
+
+  listRevisions(projectId: string, noteId: string): NoteRevision[] {
+    this.refresh();
+    return this.revisions()[revisionKey(projectId, noteId)] ?? [];
+  }
+
+  addRevision(revision: NoteRevision): void {
+    this.mutate(() => {
+      const key = revisionKey(revision.projectId, revision.noteId);
+      const log = this.revisions();
+      log[key] = [...(log[key] ?? []), revision];
+    });
+  }
+
+  private jobs(): Record<string, ProcessingJob> {
+    if (!this.db.jobs) this.db.jobs = {};
+    return this.db.jobs;
+  }
+
+  getJob(id: string): ProcessingJob | null {
+    this.refresh();
+    return this.jobs()[id] || null;
+  }
+
+  listJobs(): ProcessingJob[] {
+    this.refresh();
+    return Object.values(this.jobs());
+  }
+
+  putJob(job: ProcessingJob): void {
+    this.mutate(() => {
+      this.jobs()[job.id] = job;
+    });
+  }
+
+  transaction<T>(fn: () => T): T {
+    if (this.depth > 0) return fn();
+
+    return withFileLock(this.lockFile, () => {
+      // Under the lock, so we build on the latest committed state; the file
+      // is only read again when another process has written it since
+      this.refresh();
+      this.depth++;
+      try {
+        const result = fn();
+        if (this.dirty) this.save();
+        return result;
+      } catch (e) {
+        // The in-memory copy may be half changed: read it from disk next time
+        this.loadedVersion = '';
+        throw e;
+      } finally {
+        this.depth--;
+        this.dirty = false;
+      }
+    });
+  }
+
+  /** Raw document, used by the one-shot JSON → SQLite import. */
+  snapshot(): DbShape {
+    this.refresh();
+    return this.db;
+  }
+}
@@ -0,0 +1,136 @@
+// /lib/storage/migrations.ts
+import { Project, Note, NoteRevision, ProcessingJob } from '../../types';
+
+// The persisted document. `schemaVersion` is absent in files written before
+// versioning was introduced, which we treat as version 0.
+export interface DbShape {
+  schemaVersion?: number;
+  projects: Record<string, Project>;
+  /** Keyed by revisionKey(projectId, noteId). Added in schema v2. */
+  revisions?: Record<string, NoteRevision[]>;
+  /** Background job queue, keyed by job id. Added in schema v3. */
+  jobs?: Record<string, ProcessingJob>;
+}
+
+export function revisionKey(projectId: string, noteId: string): string {
+  return `${projectId}/${noteId}`;
+}
+
+// Text older versions saved in place of a transcription that failed (dev) or
+// was never attempted (production)
+const PLACEHOLDER_FAILED = /^Audio note recorded – /;
+const PLACEHOLDER_SKIPPED = /^Audio note recorded on /;
+
+function withTranscriptionStatus(note: Note): Note {
+  if (note.transcriptionStatus) return note;
+
+  const text = note.transcription ?? '';
+  const failed = PLACEHOLDER_FAILED.test(text);
+  if (failed || PLACEHOLDER_SKIPPED.test(text)) {
+    // Everything derived from the placeholder (the 60s duration, the 95%
+    // confidence insight, the summary) is just as fake, so drop it too
+    const cleaned: Note = {
+      ...note,
+      transcriptionStatus: failed ? 'failed' : 'skipped',
+      transcriptionError: failed ? text.replace(PLACEHOLDER_FAILED, '') : 'Transcription was disabled',
+    };
+    delete cleaned.transcription;
+    delete cleaned.summary;
+    delete cleaned.duration;
+    delete cleaned.language;
+    delete cleaned.insights;
+    return cleaned;
+  }
+
+  if (text) return { ...note, transcriptionStatus: 'done' };
+  if (!note.audio) return { ...note, transcriptionStatus: 'skipped', transcriptionError: 'Note has no audio' };
+  if (note.processingStatus === 'pending') return { ...note, transcriptionStatus: 'pending' };
+  return { ...note, transcriptionStatus: 'failed', transcriptionError: 'No transcription was saved' };
+}
+
+export interface Migration {
+  /** Version the data is at after this migration has run. */
+  version: number;
+  description: string;
+  up(db: DbShape): DbShape;
+}
+
+// Ordered oldest → newest. Append new entries; never edit or reorder
+// ones that have shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Add schemaVersion and make sure every project has a notes array',
+    up: (db) => {
+      Object.values(db.projects).forEach((project) => {
+        if (!Array.isArray(project.notes)) project.notes = [];
+      });
+      return db;
+    },
+  },
+  {
+    version: 2,
+    description: 'Add a per-note revision log',
+    up: (db) => ({ ...db, revisions: db.revisions ?? {} }),
+  },
+  {
+    version: 3,
+    description: 'Add the background job queue',
+    up: (db) => ({ ...db, jobs: db.jobs ?? {} }),
+  },
+  {
+    version: 4,
+    description: 'Record transcription status on notes and drop placeholder transcriptions',
+    up: (db) => {
+      Object.values(db.projects).forEach((project) => {
+        project.notes = project.notes.map(withTranscriptionStatus);
+      });
+      return db;
+    },
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export function schemaVersionOf(db: DbShape): number {
+  return typeof db.schemaVersion === 'number' ? db.schemaVersion : 0;
+}
+
+/** Throws if `value` does not look like a DbShape at all. */
+export function assertDbShape(value: unknown): asserts value is DbShape {
+  const projects = (value as DbShape | null)?.projects;
+  if (!projects || typeof projects !== 'object' || Array.isArray(projects)) {
+    throw new Error('missing or malformed "projects" map');
+  }
+}
+
+/**
+ * Bring `db` up to CURRENT_SCHEMA_VERSION. Returns the migrated document and
+ * the list of migrations that were applied (empty when already current).
+ * Works on a copy, so `db` is left as it was if a migration throws.
+ */
+export function migrate(db: DbShape): { db: DbShape; applied: Migration[] } {
+  const from = schemaVersionOf(db);
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `data is at schema version ${from}, newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  const applied = MIGRATIONS.filter((m) => m.version > from);
+  if (applied.length === 0) return { db, applied };
+
+  let current = structuredClone(db);
+  for (const migration of applied) {
+    console.log(`Migrating data to schema v${migration.version}: ${migration.description}`);
+    current = migration.up(current);
+    current.schemaVersion = migration.version;
+  }
+  return { db: current, applied };
+}
+
+/** Path for a pre-migration backup, e.g. `db.json.v0-2025-06-03T10-25-47.bak`. */
+export function backupPath(file: string, fromVersion: number): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return `${file}.v${fromVersion}-${stamp}.bak`;
+}
@@ -0,0 +1,325 @@
+// /lib/storage/sqlite.ts
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { Project, Note, NoteRevision, ProcessingJob } from '../../types';
+import { StorageAdapter, ProjectRecord } from './types';
+import { JsonStorage } from './json';
+import { StorageError } from './errors';
+import {
+  DbShape,
+  CURRENT_SCHEMA_VERSION,
+  backupPath,
+  migrate,
+  revisionKey,
+} from './migrations';
+
+// Projects and notes live in their own tables; each row carries the full
+// record as JSON so new `Project`/`Note` fields need no column changes.
+// The implicit rowid of `notes` preserves insertion order.
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key   TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS projects (
+    id   TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS notes (
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    id         TEXT NOT NULL,
+    timestamp  TEXT NOT NULL,
+    data       TEXT NOT NULL,
+    UNIQUE (project_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS notes_project ON notes(project_id);
+  CREATE INDEX IF NOT EXISTS notes_idempotency_key
+    ON notes(project_id, json_extract(data, '$.idempotencyKey'));
+  CREATE TABLE IF NOT EXISTS note_revisions (
+    id         TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL,
+    note_id    TEXT NOT NULL,
+    timestamp  TEXT NOT NULL,
+    data       TEXT NOT NULL,
+    FOREIGN KEY (project_id, note_id)
+      REFERENCES notes(project_id, id) ON DELETE CASCADE
+  );
+  CREATE INDEX IF NOT EXISTS note_revisions_note ON note_revisions(project_id, note_id);
+  CREATE TABLE IF NOT EXISTS jobs (
+    id         TEXT PRIMARY KEY,
+    status     TEXT NOT NULL,
+    run_after  TEXT NOT NULL,
+    data       TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS jobs_status ON jobs(status, run_after);
+`;
+
+const JSON_IMPORT_KEY = 'json_import';
+const SCHEMA_VERSION_KEY = 'schema_version';
+
+export class SqliteStorage implements StorageAdapter {
+  readonly kind = 'sqlite' as const;
+
+  private readonly db: Database.Database;
+
+  constructor(file: string, legacyJsonFile?: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    try {
+      this.db = new Database(file);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma('foreign_keys = ON');
+      this.db.exec(SCHEMA);
+    } catch (e) {
+      throw new StorageError(
+        `${file} could not be opened (${e instanceof Error ? e.message : e}). Refusing to continue.`,
+        e
+      );
+    }
+
+    this.upgrade(file);
+    if (legacyJsonFile) this.importJsonOnce(legacyJsonFile);
+  }
+
+  // ─── Schema versioning ─────────────────────────────────────────────────────
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db
+      .prepare('SELECT value FROM meta WHERE key = ?')
+      .get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db
+      .prepare(
+        `INSERT INTO meta (key, value) VALUES (?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value`
+      )
+      .run(key, value);
+  }
+
+  // Rows are opaque JSON, so migrations run on the whole DbShape and the
+  // result is written back in one transaction, after a VACUUM INTO backup.
+  private upgrade(file: string): void {
+    const stored = this.getMeta(SCHEMA_VERSION_KEY);
+    if (stored === undefined && this.isEmpty()) {
+      this.setMeta(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+      return;
+    }
+
+    const fromVersion = stored === undefined ? 0 : Number(stored);
+    if (fromVersion === CURRENT_SCHEMA_VERSION) return;
+
+    try {
+      const current: DbShape = {
+        schemaVersion: fromVersion,
+        projects: {},
+        revisions: {},
+        jobs: Object.fromEntries(this.listJobs().map((j) => [j.id, j])),
+      };
+      this.listProjects().forEach((p) => {
+        current.projects[p.id] = p;
+        p.notes.forEach((n) => {
+          current.revisions![revisionKey(p.id, n.id)] = this.listRevisions(p.id, n.id);
+        });
+      });
+
+      // migrate() also rejects data newer than this app understands
+      const { db } = migrate(current);
+
+      const backup = backupPath(file, fromVersion);
+      this.db.prepare('VACUUM INTO ?').run(backup);
+      console.log(`Backed up ${file} to ${backup} before migrating.`);
+
+      this.transaction(() => {
+        this.db.exec(
+          'DELETE FROM jobs; DELETE FROM note_revisions; DELETE FROM notes; DELETE FROM projects;'
+        );
+        Object.values(db.projects).forEach(({ notes, ...record }) => {
+          this.putProject(record);
+          notes.forEach((note) => this.putNote(record.id, note));
+        });
+        Object.values(db.revisions ?? {}).forEach((log) => log.forEach((r) => this.addRevision(r)));
+        Object.values(db.jobs ?? {}).forEach((job) => this.putJob(job));
+        this.setMeta(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+      });
+    } catch (e) {
+      throw new StorageError(
+        `Could not migrate ${file}: ${e instanceof Error ? e.message : e}`,
+        e
+      );
+    }
+  }
+
+  // ─── One-shot migration from data/db.json ──────────────────────────────────
+
+  private importJsonOnce(jsonFile: string): void {
+    if (this.getMeta(JSON_IMPORT_KEY) || !fs.existsSync(jsonFile)) return;
+
+    const legacy = new JsonStorage(jsonFile).snapshot();
+    this.transaction(() => {
+      for (const project of Object.values(legacy.projects)) {
+        const { notes, ...record } = project;
+        this.putProject(record);
+        (notes || []).forEach((note) => this.putNote(project.id, note));
+      }
+      Object.values(legacy.revisions ?? {}).forEach((log) =>
+        log.forEach((r) => this.addRevision(r))
+      );
+      Object.values(legacy.jobs ?? {}).forEach((job) => this.putJob(job));
+      this.setMeta(JSON_IMPORT_KEY, new Date().toISOString());
+    });
+
+    console.log(
+      `Imported ${Object.keys(legacy.projects).length} projects and ` +
+        `${Object.keys(legacy.jobs ?? {}).length} jobs from ${jsonFile} into SQLite.`
+    );
+  }
+
+  // ─── Row helpers ───────────────────────────────────────────────────────────
+
+  private notesFor(projectId: string): Note[] {
+    const rows = this.db
+      .prepare('SELECT data FROM notes WHERE project_id = ? ORDER BY rowid')
+      .all(projectId) as { data: string }[];
+    return rows.map((r) => JSON.parse(r.data) as Note);
+  }
+
+  private hydrate(data: string): Project {
+    const record = JSON.parse(data) as ProjectRecord;
+    return { ...record, notes: this.notesFor(record.id) };
+  }
+
+  // ─── StorageAdapter ────────────────────────────────────────────────────────
+
+  isEmpty(): boolean {
+    return !this.db.prepare('SELECT 1 FROM projects LIMIT 1').get();
+  }
+
+  getProject(id: string): Project | null {
+    const row = this.db
+      .prepare('SELECT data FROM projects WHERE id = ?')
+      .get(id) as { data: string } | undefined;
+    return row ? this.hydrate(row.data) : null;
+  }
+
+  getProjectRecord(id: string): ProjectRecord | null {
+    const row = this.db
+      .prepare('SELECT data FROM projects WHERE id = ?')
+      .get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as ProjectRecord) : null;
+  }
+
+  listProjects(): Project[] {
+    const rows = this.db
+      .prepare('SELECT data FROM projects ORDER BY rowid')
+      .all() as { data: string }[];
+    return rows.map((r) => this.hydrate(r.data));
+  }
+
+  getNote(projectId: string, noteId: string): Note | null {
+    const row = this.db
+      .prepare('SELECT data FROM notes WHERE project_id = ? AND id = ?')
+      .get(projectId, noteId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Note) : null;
+  }
+
+  findNoteByIdempotencyKey(projectId: string, key: string): Note | null {
+    const row = this.db
+      .prepare(
+        `SELECT data FROM notes
+         WHERE project_id = ? AND json_extract(data, '$.idempotencyKey') = ?`
+      )
+      .get(projectId, key) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as Note) : null;
+  }
+
+  putProject(record: ProjectRecord): void {
+    // Strip `notes` in case a full Project was passed in
+    const { notes: _notes, ...fields } = record as Project;
+    this.db
+      .prepare(
+        `INSERT INTO projects (id, data) VALUES (?, ?)
+         ON CONFLICT(id) DO UPDATE SET data = excluded.data`
+      )
+      .run(fields.id, JSON.stringify(fields));
+  }
+
+  deleteProject(id: string): boolean {
+    return this.db.prepare('DELETE FROM projects WHERE id = ?').run(id).changes > 0;
+  }
+
+  putNote(projectId: string, note: Note): void {
+    this.db
+      .prepare(
+        `INSERT INTO notes (project_id, id, timestamp, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(project_id, id) DO UPDATE SET
+           timestamp = excluded.timestamp,
+           data = excluded.data`
+      )
+      .run(projectId, note.id, note.timestamp, JSON.stringify(note));
+  }
+
+  deleteNote(projectId: string, noteId: string): boolean {
+    return (
+      this.db
+        .prepare('DELETE FROM notes WHERE project_id = ? AND id = ?')
+        .run(projectId, noteId).changes > 0
+    );
+  }
+
+  listRevisions(projectId: string, noteId: string): NoteRevision[] {
+    const rows = this.db
+      .prepare(
+        'SELECT data FROM note_revisions WHERE project_id = ? AND note_id = ? ORDER BY rowid'
+      )
+      .all(projectId, noteId) as { data: string }[];
+    return rows.map((r) => JSON.parse(r.data) as NoteRevision);
+  }
+
+  addRevision(revision: NoteRevision): void {
+    this.db
+      .prepare(
+        `INSERT INTO note_revisions (id, project_id, note_id, timestamp, data)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        revision.id,
+        revision.projectId,
+        revision.noteId,
+        revision.timestamp,
+        JSON.stringify(revision)
+      );
+  }
+
+  getJob(id: string): ProcessingJob | null {
+    const row = this.db
+      .prepare('SELECT data FROM jobs WHERE id = ?')
+      .get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as ProcessingJob) : null;
+  }
+
+  listJobs(): ProcessingJob[] {
+    const rows = this.db
+      .prepare('SELECT data FROM jobs ORDER BY rowid')
+      .all() as { data: string }[];
+    return rows.map((r) => JSON.parse(r.data) as ProcessingJob);
+  }
+
+  putJob(job: ProcessingJob): void {
+    this.db
+      .prepare(
+        `INSERT INTO jobs (id, status, run_after, data) VALUES (?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           status = excluded.status,
+           run_after = excluded.run_after,
+           data = excluded.data`
+      )
+      .run(job.id, job.status, job.runAfter, JSON.stringify(job));
+  }
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+}
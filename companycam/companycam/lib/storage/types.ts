@@ -0,0 +1,47 @@
+// /lib/storage/types.ts
+import { Project, Note, NoteRevision, ProcessingJob } from '../../types';
+import type { StorageKind } from '../config';
+
+// A project without its notes. Adapters persist notes separately so that
+// adding or editing one note never has to rewrite the whole project.
+export type ProjectRecord = Omit<Project, 'notes'>;
+
+export interface StorageAdapter {
+  readonly kind: StorageKind;
+
+  /** True when the store holds no projects at all (used to seed demo data). */
+  isEmpty(): boolean;
+
+  getProject(id: string): Project | null;
+  /** A project's own fields, without reading its notes. */
+  getProjectRecord(id: string): ProjectRecord | null;
+  listProjects(): Project[];
+  getNote(projectId: string, noteId: string): Note | null;
+  /** The project's note uploaded with this idempotency key, trashed or not. */
+  findNoteByIdempotencyKey(projectId: string, key: string): Note | null;
+
+  /** Insert or replace a project's own fields; its notes are left untouched. */
+  putProject(project: ProjectRecord): void;
+  /** Remove a project together with all of its notes and their revisions. */
+  deleteProject(id: string): boolean;
+
+  /** Insert a note at the end of the project, or replace it in place. */
+  putNote(projectId: string, note: Note): void;
+  /** Remove a note together with its revisions. */
+  deleteNote(projectId: string, noteId: string): boolean;
+
+  /** Revision log of one note, oldest first. */
+  listRevisions(projectId: string, noteId: string): NoteRevision[];
+  addRevision(revision: NoteRevision): void;
+
+  /** Persistent background job queue. */
+  getJob(id: string): ProcessingJob | null;
+  listJobs(): ProcessingJob[];
+  putJob(job: ProcessingJob): void;
+
+  /**
+   * Run `fn` as one unit of work. Writes made inside are persisted together
+   * when the outermost transaction returns, and discarded if it throws.
+   */
+  transaction<T>(fn: () => T): T;
+}
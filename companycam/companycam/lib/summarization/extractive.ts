@@ -0,0 +1,74 @@
+// /lib/summarization/extractive.ts
+import { splitSentences } from '../text';
+import { SummaryResult, Summarizer } from './types';
+
+// Words that say nothing about what a note is about
+const STOP_WORDS = new Set(
+  `a about above after again against all also am an and any are as at be because been before
+  being below between both but by can could did do does doing down during each few for from
+  further get got had has have having he her here hers herself him himself his how i if in into
+  is it its itself just like me more most my myself no nor not now of off on once only or other
+  our ours ourselves out over own really same she should so some such than that the their theirs
+  them themselves then there these they this those through to too um uh under until up very was
+  we were what when where which while who whom why will with would yeah you your yours yourself
+  yourselves okay ok gonna going go know think right well let lets thing things one two see`
+    .split(/\s+/)
+    .filter(Boolean)
+);
+
+const SUMMARY_SENTENCES = 2;
+const MAX_KEY_POINTS = 5;
+const MAX_TOPICS = 5;
+
+function contentWords(sentence: string): string[] {
+  return (sentence.toLowerCase().match(/[a-z0-9][a-z0-9'-]*/g) ?? [])
+    .map((w) => w.replace(/'s$/, ''))
+    .filter((w) => w.length > 2 && !STOP_WORDS.has(w) && !/^\d+$/.test(w));
+}
+
+// Classic frequency-based extraction: a sentence is as important as the
+// words it contains are frequent across the whole note.
+export class ExtractiveSummarizer implements Summarizer {
+  readonly kind = 'extractive' as const;
+
+  async summarize(text: string): Promise<SummaryResult> {
+    const sentences = splitSentences(text);
+    if (sentences.length === 0) return { summary: '', keyPoints: [], topics: [] };
+
+    const frequency = new Map<string, number>();
+    const sentenceWords = sentences.map(contentWords);
+    sentenceWords.flat().forEach((w) => frequency.set(w, (frequency.get(w) ?? 0) + 1));
+    const maxFrequency = Math.max(1, ...Array.from(frequency.values()));
+
+    const scored = sentences.map((sentence, index) => {
+      const words = sentenceWords[index];
+      const weight = words.reduce((acc, w) => acc + (frequency.get(w) ?? 0) / maxFrequency, 0);
+      // Normalise so long sentences don't win by length alone, and give the
+      // opening a small edge: people tend to say what a note is about first
+      const score =
+        (words.length ? weight / Math.sqrt(words.length) : 0) * (index === 0 ? 1.2 : 1);
+      return { sentence, index, score };
+    });
+
+    const top = (n: number) =>
+      [...scored]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, n)
+        .sort((a, b) => a.index - b.index)
+        .map((s) => s.sentence);
+
+    const summarySentences = top(SUMMARY_SENTENCES);
+    const summary = summarySentences.join(' ');
+    // Key points are what else matters; the card shows them under the summary
+    const keyPoints = top(SUMMARY_SENTENCES + MAX_KEY_POINTS).filter(
+      (s) => !summarySentences.includes(s)
+    );
+    const topics = Array.from(frequency.entries())
+      .filter(([, count]) => count > 1 || frequency.size <= MAX_TOPICS)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_TOPICS)
+      .map(([word]) => word);
+
+    return { summary, keyPoints, topics };
+  }
+}
@@ -0,0 +1,37 @@
+// /lib/summarization/index.ts
+import { config } from '../config';
+import type { SummarizerKind } from '../../types';
+import { Summarizer, SummaryResult } from './types';
+import { ExtractiveSummarizer } from './extractive';
+import { LlmSummarizer } from './llm';
+
+export type { Summarizer, SummaryResult } from './types';
+
+export function createSummarizer(kind: SummarizerKind): Summarizer {
+  switch (kind) {
+    case 'extractive':
+      return new ExtractiveSummarizer();
+    case 'llm':
+      return new LlmSummarizer(config.summarization);
+  }
+}
+
+/**
+ * Summarise with `kind` (the server default if omitted). A failing LLM falls
+ * back to the extractive summarizer: a plainer summary beats none, and
+ * `summarizedBy` records which one actually ran.
+ */
+export async function summarizeText(
+  text: string,
+  kind: SummarizerKind = config.summarization.kind
+): Promise<SummaryResult & { summarizedBy: SummarizerKind }> {
+  const summarizer = createSummarizer(kind);
+  try {
+    return { ...(await summarizer.summarize(text)), summarizedBy: summarizer.kind };
+  } catch (e) {
+    if (summarizer.kind === 'extractive') throw e;
+    console.warn(`Summarizer "${summarizer.kind}" failed, falling back to extractive:`, e);
+    const fallback = createSummarizer('extractive');
+    return { ...(await fallback.summarize(text)), summarizedBy: fallback.kind };
+  }
+}
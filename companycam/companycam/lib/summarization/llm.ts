@@ -0,0 +1,71 @@
+// /lib/summarization/llm.ts
+import { config } from '../config';
+import { SummaryResult, Summarizer } from './types';
+
+type SummarizationConfig = typeof config.summarization;
+
+const SYSTEM_PROMPT = `You summarise voice notes recorded on construction sites.
+Reply with a JSON object with exactly these keys:
+- "summary": one or two plain sentences saying what the note is about.
+- "key_points": up to 5 short statements of the most important facts, in the order mentioned.
+- "topics": up to 5 one- or two-word subjects (e.g. "drywall", "level 3", "inspection").
+Only use information from the note. Write in the language of the note.`;
+
+// Very long transcripts are cut to keep the request within model limits
+const MAX_INPUT_CHARS = 24_000;
+
+function stringList(value: unknown, max: number): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.trim())
+    .filter(Boolean)
+    .slice(0, max);
+}
+
+// Any server speaking OpenAI's POST /chat/completions with JSON output:
+// OpenAI itself, Ollama, vLLM, LocalAI...
+export class LlmSummarizer implements Summarizer {
+  readonly kind = 'llm' as const;
+
+  constructor(private readonly options: SummarizationConfig) {}
+
+  async summarize(text: string): Promise<SummaryResult> {
+    const { apiUrl, apiKey, model, timeoutMs } = this.options;
+
+    const resp = await fetch(`${apiUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: text.slice(0, MAX_INPUT_CHARS) },
+        ],
+      }),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!resp.ok) {
+      throw new Error(`Summary API returned ${resp.status}: ${(await resp.text()).slice(0, 200)}`);
+    }
+
+    const data = (await resp.json()) as { choices?: { message?: { content?: string } }[] };
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) throw new Error('Summary API returned no content');
+
+    const parsed = JSON.parse(content) as Record<string, unknown>;
+    const summary = typeof parsed.summary === 'string' ? parsed.summary.trim() : '';
+    if (!summary) throw new Error('Summary API returned no summary');
+
+    return {
+      summary,
+      keyPoints: stringList(parsed.key_points, 5),
+      topics: stringList(parsed.topics, 5),
+    };
+  }
+}
@@ -0,0 +1,18 @@
+// /lib/summarization/types.ts
+import type { SummarizerKind } from '../../types';
+
+export interface SummaryResult {
+  /** A sentence or two that stands on its own. */
+  summary: string;
+  /** The most informative statements, in the order they were made. */
+  keyPoints: string[];
+  /** Main subjects, most prominent first. */
+  topics: string[];
+}
+
+export interface Summarizer {
+  readonly kind: SummarizerKind;
+
+  /** Throws if the text could not be summarised (e.g. the LLM endpoint is down). */
+  summarize(text: string): Promise<SummaryResult>;
+}
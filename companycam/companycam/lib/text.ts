@@ -0,0 +1,23 @@
+// /lib/text.ts
+
+// Unpunctuated transcripts come out as one run-on "sentence"; cut those up
+const MAX_SENTENCE_WORDS = 40;
+
+/** Split prose (typically a Whisper transcript) into sentences. */
+export function splitSentences(text: string): string[] {
+  const sentences = text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"'])/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  return sentences.flatMap((sentence) => {
+    const words = sentence.split(' ');
+    if (words.length <= MAX_SENTENCE_WORDS) return [sentence];
+    const chunks: string[] = [];
+    for (let i = 0; i < words.length; i += MAX_SENTENCE_WORDS) {
+      chunks.push(words.slice(i, i + MAX_SENTENCE_WORDS).join(' '));
+    }
+    return chunks;
+  });
+}
@@ -0,0 +1,92 @@
+// /lib/transcription/fasterWhisper.ts
+import fs from 'fs';
+import path from 'path';
+import { TranscriptionResult } from '../../types';
+import { TranscriptionConfig, TranscriptionProvider, TranscribeOptions } from './types';
+import { lastLine, runCommand, transcriptionFailed, vocabularyPrompt } from './util';
+
+// transcribe.py writes `PROGRESS {"processed": s, "total": s}` to stderr per segment
+const PROGRESS_PREFIX = 'PROGRESS ';
+
+function parseProgressLine(line: string): number | null {
+  if (!line.startsWith(PROGRESS_PREFIX)) return null;
+  try {
+    const { processed, total } = JSON.parse(line.slice(PROGRESS_PREFIX.length));
+    if (typeof processed !== 'number' || typeof total !== 'number' || total <= 0) return null;
+    return Math.min(1, Math.max(0, processed / total));
+  } catch {
+    return null;
+  }
+}
+
+// The script prints a single JSON object on stdout, possibly after other noise
+function parseOutput(stdout: string): TranscriptionResult | null {
+  const start = stdout.indexOf('{');
+  const end = stdout.lastIndexOf('}') + 1;
+  if (start < 0 || end <= start) return null;
+  try {
+    return JSON.parse(stdout.slice(start, end)) as TranscriptionResult;
+  } catch {
+    return null;
+  }
+}
+
+// Runs python/transcribe.py (faster-whisper) as a child process
+export class FasterWhisperProvider implements TranscriptionProvider {
+  readonly kind = 'faster-whisper' as const;
+
+  private readonly scriptPath = path.join(process.cwd(), 'python', 'transcribe.py');
+
+  constructor(private readonly options: TranscriptionConfig) {}
+
+  async transcribe(
+    audioPath: string,
+    { language, vocabulary, onProgress }: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
+    if (!fs.existsSync(this.scriptPath)) {
+      return transcriptionFailed('python/transcribe.py is missing');
+    }
+    if (!fs.existsSync(audioPath)) {
+      return transcriptionFailed('Audio file not found');
+    }
+
+    const { pythonBin, model, device, computeType, wordTimestamps, diarize, timeoutMs } =
+      this.options;
+    try {
+      const { code, stdout, stderr } = await runCommand(pythonBin, [this.scriptPath, audioPath], {
+        env: {
+          WHISPER_MODEL_SIZE: model,
+          WHISPER_DEVICE: device,
+          WHISPER_COMPUTE_TYPE: computeType,
+          WHISPER_WORD_TIMESTAMPS: wordTimestamps ? '1' : '0',
+          WHISPER_DIARIZE: diarize ? '1' : '0',
+          WHISPER_LANGUAGE: language ?? '',
+          WHISPER_INITIAL_PROMPT: vocabularyPrompt(vocabulary),
+          WHISPER_HOTWORDS: (vocabulary ?? []).join(' '),
+        },
+        timeoutMs,
+        onStderrLine: (line) => {
+          const fraction = parseProgressLine(line.trim());
+          if (fraction !== null) {
+            onProgress?.(fraction);
+            return true;
+          }
+          if (line.trim()) console.log('Whisper stderr:', line.trim());
+          return false;
+        },
+      });
+
+      const result = parseOutput(stdout);
+      if (code === 0 && result?.success && result.text) {
+        return { ...result, provider: this.kind };
+      }
+      return transcriptionFailed(
+        result?.error ||
+          (code === 0 ? 'No speech was recognised' : lastLine(stderr)) ||
+          `transcribe.py exited with code ${code}`
+      );
+    } catch (e) {
+      return transcriptionFailed(e instanceof Error ? e.message : String(e));
+    }
+  }
+}
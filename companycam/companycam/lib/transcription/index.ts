@@ -0,0 +1,45 @@
+// /lib/transcription/index.ts
+import { config } from '../config';
+import { TranscriptionResult, VocabularyReplacement } from '../../types';
+import { TranscriptionProvider, TranscribeOptions } from './types';
+import { FasterWhisperProvider } from './fasterWhisper';
+import { WhisperCppProvider } from './whisperCpp';
+import { OpenAiTranscriptionProvider } from './openai';
+import { NoTranscriptionProvider } from './none';
+import { applyReplacements } from './replacements';
+
+export type { TranscriptionProvider, TranscribeOptions, TranscribeProgress } from './types';
+
+// Picks the engine named by TRANSCRIPTION_PROVIDER
+export function createTranscriptionProvider(): TranscriptionProvider {
+  const options = config.transcription;
+  switch (options.provider) {
+    case 'faster-whisper':
+      return new FasterWhisperProvider(options);
+    case 'whisper-cpp':
+      return new WhisperCppProvider(options);
+    case 'openai':
+      return new OpenAiTranscriptionProvider(options);
+    case 'none':
+      return new NoTranscriptionProvider();
+  }
+}
+
+let provider: TranscriptionProvider | null = null;
+
+/**
+ * Transcribe with the configured engine, then apply the project's
+ * find-and-replace dictionary to what it heard.
+ */
+export async function transcribeAudio(
+  audioPath: string,
+  options: TranscribeOptions & { replacements?: VocabularyReplacement[] } = {}
+): Promise<TranscriptionResult> {
+  provider ??= createTranscriptionProvider();
+  const { replacements, ...transcribeOptions } = options;
+  const result = await provider.transcribe(audioPath, transcribeOptions);
+  if (!result.success && !result.skipped) {
+    console.warn(`Transcription (${provider.kind}) failed:`, result.error);
+  }
+  return applyReplacements(result, replacements);
+}
@@ -0,0 +1,12 @@
+// /lib/transcription/none.ts
+import { TranscriptionResult } from '../../types';
+import { TranscriptionProvider } from './types';
+
+// Transcription switched off on purpose, e.g. a deployment with no engine
+export class NoTranscriptionProvider implements TranscriptionProvider {
+  readonly kind = 'none' as const;
+
+  async transcribe(): Promise<TranscriptionResult> {
+    return { success: false, skipped: true, error: 'Transcription is disabled' };
+  }
+}
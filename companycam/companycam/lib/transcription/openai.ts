@@ -0,0 +1,96 @@
+// /lib/transcription/openai.ts
+import fs from 'fs';
+import path from 'path';
+import { TranscriptionResult, TranscriptSegment, TranscriptWord } from '../../types';
+import { TranscriptionConfig, TranscriptionProvider, TranscribeOptions } from './types';
+import { transcriptionFailed, vocabularyPrompt } from './util';
+
+// `response_format: verbose_json` (only the parts we read)
+interface VerboseTranscription {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: { start: number; end: number; text: string }[];
+  /** Only when word granularity was requested; not nested under segments. */
+  words?: TranscriptWord[];
+}
+
+function toSegments(data: VerboseTranscription): TranscriptSegment[] | undefined {
+  const { segments, words = [] } = data;
+  if (!segments?.length) return undefined;
+  return segments.map(({ start, end, text }, i) => {
+    const last = i === segments.length - 1;
+    const own = words.filter((w) => w.start >= start && (w.start < end || last));
+    return {
+      start,
+      end,
+      text: text.trim(),
+      ...(own.length ? { words: own.map((w) => ({ ...w, word: w.word.trim() })) } : {}),
+    };
+  });
+}
+
+// Any server speaking OpenAI's POST /audio/transcriptions: OpenAI itself,
+// a self-hosted faster-whisper-server, LocalAI, or a stub in development.
+// There is no progress to report; the request either finishes or it doesn't.
+export class OpenAiTranscriptionProvider implements TranscriptionProvider {
+  readonly kind = 'openai' as const;
+
+  constructor(private readonly options: TranscriptionConfig) {}
+
+  async transcribe(
+    audioPath: string,
+    { language, vocabulary }: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
+    const { apiUrl, apiKey, apiModel, timeoutMs } = this.options;
+
+    if (!fs.existsSync(audioPath)) {
+      return transcriptionFailed('Audio file not found');
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([fs.readFileSync(audioPath)]), path.basename(audioPath));
+    form.append('model', apiModel);
+    form.append('response_format', 'verbose_json');
+    form.append('timestamp_granularities[]', 'segment');
+    if (this.options.wordTimestamps) form.append('timestamp_granularities[]', 'word');
+    if (language) form.append('language', language);
+    const prompt = vocabularyPrompt(vocabulary);
+    if (prompt) form.append('prompt', prompt);
+
+    try {
+      const resp = await fetch(`${apiUrl.replace(/\/+$/, '')}/audio/transcriptions`, {
+        method: 'POST',
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+        body: form,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!resp.ok) {
+        const body = (await resp.text()).slice(0, 200);
+        return transcriptionFailed(`Transcription API returned ${resp.status}: ${body}`);
+      }
+
+      const data = (await resp.json()) as VerboseTranscription;
+      const text = data.text?.trim();
+      if (!text) return transcriptionFailed('No speech was recognised');
+
+      return {
+        success: true,
+        text,
+        segments: toSegments(data),
+        language: data.language,
+        duration: data.duration,
+        provider: this.kind,
+      };
+    } catch (e) {
+      if (e instanceof Error && e.name === 'TimeoutError') {
+        return transcriptionFailed(`Transcription API timed out after ${Math.round(timeoutMs / 1000)}s`);
+      }
+      // fetch() hides the network error (refused, DNS…) in `cause`
+      const cause = e instanceof Error && e.cause instanceof Error ? `: ${e.cause.message}` : '';
+      return transcriptionFailed(
+        `Could not reach transcription API at ${apiUrl}${cause || (e instanceof Error ? `: ${e.message}` : '')}`
+      );
+    }
+  }
+}
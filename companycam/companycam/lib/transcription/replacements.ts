@@ -0,0 +1,54 @@
+// /lib/transcription/replacements.ts
+import { TranscriptionResult, VocabularyReplacement } from '../../types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole words, any case, any run of spaces: "sub grade" matches "Sub  grade"
+function compile(replacements: VocabularyReplacement[]): [RegExp, string][] {
+  return replacements
+    .filter(({ from }) => from.trim())
+    .map(({ from, to }) => [
+      new RegExp(
+        `(?<![\\w-])${from.trim().split(/\s+/).map(escapeRegExp).join('\\s+')}(?![\\w-])`,
+        'gi'
+      ),
+      to,
+    ]);
+}
+
+function replaceAll(text: string, rules: [RegExp, string][]): string {
+  // A function replacement, so "$1" in `to` is inserted literally
+  return rules.reduce((acc, [re, to]) => acc.replace(re, () => to), text);
+}
+
+/**
+ * Apply a project's find-and-replace dictionary to a transcription: its text,
+ * segments, and the individual words (single-word entries only line up there).
+ */
+export function applyReplacements(
+  result: TranscriptionResult,
+  replacements: VocabularyReplacement[] = []
+): TranscriptionResult {
+  const rules = compile(replacements);
+  if (!result.success || rules.length === 0) return result;
+
+  return {
+    ...result,
+    text: replaceAll(result.text ?? '', rules),
+    ...(result.segments
+      ? {
+          segments: result.segments.map((segment) => ({
+            ...segment,
+            text: replaceAll(segment.text, rules),
+            ...(segment.words
+              ? {
+                  words: segment.words.map((w) => ({ ...w, word: replaceAll(w.word, rules) })),
+                }
+              : {}),
+          })),
+        }
+      : {}),
+  };
+}
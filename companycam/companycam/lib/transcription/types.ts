@@ -0,0 +1,27 @@
+// /lib/transcription/types.ts
+import { TranscriptionResult } from '../../types';
+import type { config, TranscriptionProviderKind } from '../config';
+
+export type TranscriptionConfig = typeof config.transcription;
+
+/** Called with the fraction (0–1) of audio transcribed so far. */
+export type TranscribeProgress = (fraction: number) => void;
+
+export interface TranscribeOptions {
+  /** ISO 639-1 code; the engine detects the language when unset. */
+  language?: string;
+  /** Words the engine should expect, passed as an initial prompt / hotwords. */
+  vocabulary?: string[];
+  onProgress?: TranscribeProgress;
+}
+
+export interface TranscriptionProvider {
+  readonly kind: TranscriptionProviderKind;
+
+  /**
+   * Transcribe one audio file. Expected failures (engine not installed,
+   * unreadable audio, endpoint down, timeout) resolve with `success: false`
+   * and an `error` rather than throwing.
+   */
+  transcribe(audioPath: string, options?: TranscribeOptions): Promise<TranscriptionResult>;
+}
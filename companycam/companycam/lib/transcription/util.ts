@@ -0,0 +1,97 @@
+// /lib/transcription/util.ts
+import { spawn } from 'child_process';
+import { TranscriptionResult } from '../../types';
+
+export function transcriptionFailed(error: string): TranscriptionResult {
+  return { success: false, error };
+}
+
+// Whisper only reads the last 224 tokens of its prompt; stay well inside that
+const MAX_PROMPT_CHARS = 600;
+
+/**
+ * Vocabulary as an initial prompt. Whisper continues in the style of its
+ * prompt, so a comma-separated glossary nudges it towards those spellings.
+ */
+export function vocabularyPrompt(vocabulary: string[] = []): string {
+  let prompt = '';
+  for (const term of vocabulary) {
+    const next = prompt ? `${prompt}, ${term}` : term;
+    if (next.length > MAX_PROMPT_CHARS) break;
+    prompt = next;
+  }
+  return prompt ? `${prompt}.` : '';
+}
+
+export function lastLine(text: string): string {
+  const lines = text.trim().split('\n');
+  return lines[lines.length - 1]?.trim() ?? '';
+}
+
+export interface CommandResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+interface CommandOptions {
+  env?: Record<string, string>;
+  timeoutMs: number;
+  /** Sees each complete stderr line; return true to keep it out of `stderr`. */
+  onStderrLine?: (line: string) => boolean;
+}
+
+// Run a command to completion. Rejects if it can't be started or runs past
+// the timeout; a non-zero exit code is left to the caller to interpret.
+export function runCommand(
+  command: string,
+  args: string[],
+  options: CommandOptions
+): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let partial = '';
+    let settled = false;
+
+    const child = spawn(command, args, { env: { ...process.env, ...options.env } });
+
+    const timer = setTimeout(() => {
+      if (settled) return;
+      settled = true;
+      child.kill();
+      reject(new Error(`${command} timed out after ${Math.round(options.timeoutMs / 1000)}s`));
+    }, options.timeoutMs);
+
+    const takeLine = (raw: string) => {
+      const line = raw.replace(/\r$/, '');
+      if (options.onStderrLine?.(line)) return;
+      stderr += line + '\n';
+    };
+
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      // Lines may arrive split across chunks; keep the partial tail
+      const lines = (partial + data.toString()).split('\n');
+      partial = lines.pop() ?? '';
+      lines.forEach(takeLine);
+    });
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      reject(err.code === 'ENOENT' ? new Error(`${command} is not installed or not on PATH`) : err);
+    });
+
+    child.on('close', (code) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      if (partial) takeLine(partial);
+      resolve({ code, stdout, stderr });
+    });
+  });
+}
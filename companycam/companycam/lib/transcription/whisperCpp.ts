@@ -0,0 +1,101 @@
+// /lib/transcription/whisperCpp.ts
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TranscriptionResult, TranscriptSegment } from '../../types';
+import { TranscriptionConfig, TranscriptionProvider, TranscribeOptions } from './types';
+import { lastLine, runCommand, transcriptionFailed, vocabularyPrompt } from './util';
+
+// Printed to stderr when run with --print-progress
+const PROGRESS_RE = /progress\s*=\s*(\d+)%/;
+
+// Shape of the file written by --output-json (only the parts we read)
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: { offsets?: { from: number; to: number }; text: string }[];
+}
+
+// Runs a whisper.cpp CLI binary (`whisper-cli`, formerly `main`). Timings are
+// per segment only: its token-level output splits words into sub-word pieces.
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly kind = 'whisper-cpp' as const;
+
+  constructor(private readonly options: TranscriptionConfig) {}
+
+  async transcribe(
+    audioPath: string,
+    { language, vocabulary, onProgress }: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
+    const { whisperCppBin, whisperCppModel, ffmpegBin, device, timeoutMs } = this.options;
+
+    if (!whisperCppModel) {
+      return transcriptionFailed('WHISPER_CPP_MODEL is not set');
+    }
+    if (!fs.existsSync(whisperCppModel)) {
+      return transcriptionFailed(`whisper.cpp model not found: ${whisperCppModel}`);
+    }
+    if (!fs.existsSync(audioPath)) {
+      return transcriptionFailed('Audio file not found');
+    }
+
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'whisper-cpp-'));
+    try {
+      // whisper.cpp reads 16 kHz mono WAV; browsers record WebM/Opus
+      const wavPath = path.join(workDir, 'audio.wav');
+      const converted = await runCommand(
+        ffmpegBin,
+        ['-y', '-loglevel', 'error', '-i', audioPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath],
+        { timeoutMs }
+      );
+      if (converted.code !== 0) {
+        return transcriptionFailed(`ffmpeg could not convert the audio: ${lastLine(converted.stderr)}`);
+      }
+
+      const outBase = path.join(workDir, 'transcript');
+      const args = ['-m', whisperCppModel, '-f', wavPath, '-oj', '-of', outBase, '-pp'];
+      args.push('-l', language || 'auto');
+      if (device === 'cpu') args.push('-ng');
+      const prompt = vocabularyPrompt(vocabulary);
+      if (prompt) args.push('--prompt', prompt);
+
+      const { code, stderr } = await runCommand(whisperCppBin, args, {
+        timeoutMs,
+        onStderrLine: (line) => {
+          const match = PROGRESS_RE.exec(line);
+          if (!match) return false;
+          onProgress?.(Math.min(100, Number(match[1])) / 100);
+          return true;
+        },
+      });
+      if (code !== 0 || !fs.existsSync(`${outBase}.json`)) {
+        return transcriptionFailed(lastLine(stderr) || `${whisperCppBin} exited with code ${code}`);
+      }
+
+      const output = JSON.parse(fs.readFileSync(`${outBase}.json`, 'utf-8')) as WhisperCppOutput;
+      const segments: TranscriptSegment[] = [];
+      for (const { offsets, text } of output.transcription ?? []) {
+        if (offsets && text.trim()) {
+          segments.push({ start: offsets.from / 1000, end: offsets.to / 1000, text: text.trim() });
+        }
+      }
+      const text = segments
+        .map((s) => s.text)
+        .join(' ')
+        .trim();
+      if (!text) return transcriptionFailed('No speech was recognised');
+
+      return {
+        success: true,
+        text,
+        segments,
+        language: output.result?.language,
+        duration: segments[segments.length - 1]?.end,
+        provider: this.kind,
+      };
+    } catch (e) {
+      return transcriptionFailed(e instanceof Error ? e.message : String(e));
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+}
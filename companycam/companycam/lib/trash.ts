@@ -0,0 +1,29 @@
+// /lib/trash.ts
+import { config } from './config';
+import { purgeTrashedBefore } from './data';
+import { removeNoteMedia } from './media';
+
+export interface PurgeResult {
+  projects: number;
+  notes: number;
+  cutoff: string;
+}
+
+/**
+ * Permanently remove everything that has sat in the trash longer than
+ * TRASH_RETENTION_DAYS, including the uploads and PDF reports of each note.
+ */
+export function runTrashPurge(now: Date = new Date()): PurgeResult {
+  const cutoff = new Date(now.getTime() - config.trash.retentionDays * 24 * 60 * 60 * 1000);
+  const purged = purgeTrashedBefore(cutoff);
+
+  // Media goes only after the store has committed, so a failed write never
+  // leaves notes pointing at deleted files
+  purged.notes.forEach(removeNoteMedia);
+
+  return {
+    projects: purged.projects.length,
+    notes: purged.notes.length,
+    cutoff: cutoff.toISOString(),
+  };
+}
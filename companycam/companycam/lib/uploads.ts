@@ -0,0 +1,533 @@
+// /lib/uploads.ts
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { Note, UploadFileInfo, UploadSession } from '../types';
+import { config } from './config';
+import {
+  addUploadedNote,
+  findNoteByIdempotencyKey,
+  generateId,
+  getProject,
+} from './data';
+import { kickJobRunner } from './jobs/runner';
+import { uploadDir } from './media';
+import { withFileLock } from './storage/fileLock';
+
+const MAX_IMAGES = 10;
+const MAX_TEXT_LENGTH = 100_000;
+const MAX_CAPTION_LENGTH = 500;
+const SESSION_ID = /^[a-z0-9]+$/;
+const IDEMPOTENCY_KEY = /^[\w-]{8,100}$/;
+
+// Raised for requests the upload protocol rejects; `status` is the HTTP
+// status the API routes answer with, and `received` where a file has got to
+// when a chunk arrived for the wrong offset.
+export class UploadError extends Error {
+  constructor(message: string, readonly status: number, readonly received?: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+type StoredSession = Omit<UploadSession, 'files'> & { files: UploadFileInfo[] };
+
+export interface UploadOptions {
+  idempotencyKey?: string;
+  capturedAt?: string;
+  /** Typed text of the note. */
+  text?: string;
+}
+
+/** An uploaded photo, by its name in the uploads folder. */
+export interface UploadedImage {
+  name: string;
+  caption?: string;
+}
+
+/** Validate the optional idempotency key, capture time and text of an upload. */
+export function parseUploadOptions(raw: {
+  idempotencyKey?: unknown;
+  capturedAt?: unknown;
+  text?: unknown;
+}): UploadOptions {
+  const { idempotencyKey, capturedAt, text } = raw;
+  const options: UploadOptions = {};
+  if (idempotencyKey !== undefined && idempotencyKey !== '') {
+    if (typeof idempotencyKey !== 'string' || !IDEMPOTENCY_KEY.test(idempotencyKey)) {
+      throw new UploadError('"idempotencyKey" must be 8-100 letters, digits, dashes or underscores', 400);
+    }
+    options.idempotencyKey = idempotencyKey;
+  }
+  if (capturedAt !== undefined && capturedAt !== '') {
+    const time = typeof capturedAt === 'string' ? new Date(capturedAt).getTime() : NaN;
+    if (Number.isNaN(time)) {
+      throw new UploadError('"capturedAt" must be an ISO date', 400);
+    }
+    // A phone's clock can run ahead; a note can't be from the future
+    options.capturedAt = new Date(Math.min(time, Date.now())).toISOString();
+  }
+  if (text !== undefined) {
+    if (typeof text !== 'string') throw new UploadError('"text" must be a string', 400);
+    if (text.length > MAX_TEXT_LENGTH) throw new UploadError('"text" is too long', 400);
+    if (text.trim()) options.text = text.trim();
+  }
+  return options;
+}
+
+function parseCaption(value: unknown, where: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new UploadError(`${where} must be a string`, 400);
+  if (value.length > MAX_CAPTION_LENGTH) {
+    throw new UploadError(`${where} is longer than ${MAX_CAPTION_LENGTH} characters`, 400);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Captions sent as repeated form fields, one per image in the same order;
+ * an empty field leaves that image without one.
+ */
+export function parseCaptions(raw: unknown, imageCount: number): (string | undefined)[] {
+  const values = raw === undefined ? [] : Array.isArray(raw) ? raw : [raw];
+  if (values.length > imageCount) {
+    throw new UploadError('There are more captions than images', 400);
+  }
+  return values.map((value, index) => parseCaption(value, `captions[${index}]`));
+}
+
+function requireContent(hasFiles: boolean, options: UploadOptions): void {
+  if (!hasFiles && !options.text) {
+    throw new UploadError('A note needs a recording, photos or text', 400);
+  }
+}
+
+// ─── Stored file names ─────────────────────────────────────────────────────────
+
+// Uploads are served from the uploads folder as they are, so the extension
+// decides how a browser treats them. It comes from this list of types we
+// accept, never from the client's file name: "photo.html" or an SVG with a
+// script in it must not end up as a page on our origin.
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': '.webm',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/x-m4a': '.m4a',
+  'audio/m4a': '.m4a',
+  'audio/aac': '.aac',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/wave': '.wav',
+  'audio/flac': '.flac',
+  'audio/x-flac': '.flac',
+  'audio/3gpp': '.3gp',
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+  'image/heif': '.heif',
+  'image/avif': '.avif',
+  'application/pdf': '.pdf',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'text/plain': '.txt',
+  'text/csv': '.csv',
+};
+
+/** The extension files of `mimetype` are stored with; null if we don't take them. */
+export function storedExtension(mimetype: string): string | null {
+  // MediaRecorder types carry parameters, e.g. "audio/webm;codecs=opus"
+  const type = mimetype.split(';')[0].trim().toLowerCase();
+  return FILE_EXTENSIONS[type] ?? null;
+}
+
+// A unique name for an upload in the uploads folder: the client's name for
+// readability, with only safe characters, and our extension for its type
+function storedFileName(prefix: string, originalName: string, mimetype: string): string {
+  const extension = storedExtension(mimetype);
+  if (!extension) throw new UploadError(`Files of type ${mimetype} are not accepted`, 415);
+  const base = path.parse(path.basename(originalName)).name.replace(/[^\w-]+/g, '_');
+  return `${prefix}_${base || 'file'}${extension}`;
+}
+
+// ─── Multipart uploads ─────────────────────────────────────────────────────────
+
+/**
+ * Where multer puts files posted as multipart form data, and what it allows.
+ * Routes using it must still only accept types storedExtension() knows.
+ */
+export const multipartStorage = multer.diskStorage({
+  destination: uploadDir,
+  filename: (_, file, cb) => {
+    try {
+      cb(null, storedFileName(String(Date.now()), file.originalname, file.mimetype));
+    } catch (e) {
+      cb(e as Error, '');
+    }
+  },
+});
+export const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+// ─── Saving a note from uploaded files ─────────────────────────────────────────
+
+/**
+ * Add a pending note for files already in the uploads folder, plus any typed
+ * text, and queue its processing. Shared by the one-shot and the resumable
+ * upload. When a note with the same idempotency key exists, returns it with
+ * `duplicate` set and saves nothing; the caller should discard its copy of
+ * the files.
+ */
+export function saveUploadedNote(
+  projectId: string,
+  audio: string | undefined,
+  images: UploadedImage[],
+  options: UploadOptions = {}
+): { note: Note; jobId: string; duplicate: boolean } | null {
+  requireContent(!!audio || images.length > 0, options);
+
+  const captions = images.filter((image) => image.caption);
+  const saved = addUploadedNote(
+    projectId,
+    {
+      timestamp: options.capturedAt ?? new Date().toISOString(),
+      ...(options.text ? { text: options.text } : {}),
+      ...(audio ? { audio } : {}),
+      images: images.map((image) => image.name),
+      ...(captions.length
+        ? { imageCaptions: Object.fromEntries(captions.map((image) => [image.name, image.caption!])) }
+        : {}),
+      ...(options.idempotencyKey ? { idempotencyKey: options.idempotencyKey } : {}),
+      processingStatus: 'pending',
+      ...(audio
+        ? { transcriptionStatus: 'pending' as const }
+        : { transcriptionStatus: 'skipped' as const, transcriptionError: 'Note has no audio' }),
+    },
+    config.jobs.maxAttempts
+  );
+
+  if (saved && !saved.duplicate) kickJobRunner();
+  return saved;
+}
+
+// ─── Resumable uploads ─────────────────────────────────────────────────────────
+// Each session is a folder holding meta.json and one <index>.part per file,
+// which chunks are appended to in order until it reaches its declared size,
+// plus a lock file while a chunk is being written.
+
+function sessionDir(id: string): string {
+  if (!SESSION_ID.test(id)) throw new UploadError('Upload not found', 404);
+  return path.join(config.uploads.sessionsDir, id);
+}
+
+function partPath(id: string, index: number): string {
+  return path.join(sessionDir(id), `${index}.part`);
+}
+
+function readSession(id: string): StoredSession | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(sessionDir(id), 'meta.json'), 'utf-8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw e;
+  }
+}
+
+function writeSession(session: StoredSession): void {
+  const file = path.join(sessionDir(session.id), 'meta.json');
+  fs.writeFileSync(`${file}.tmp`, JSON.stringify(session, null, 2));
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+function sizeOf(file: string): number {
+  return fs.existsSync(file) ? fs.statSync(file).size : 0;
+}
+
+function withProgress(session: StoredSession): UploadSession {
+  return {
+    ...session,
+    files: session.files.map((file, index) => ({
+      ...file,
+      received: session.completed ? file.size : sizeOf(partPath(session.id, index)),
+    })),
+  };
+}
+
+function parseFiles(raw: unknown): UploadFileInfo[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    throw new UploadError('"files" must be an array', 400);
+  }
+  const files = raw.map((value, index) => {
+    const f = value as Partial<UploadFileInfo> | null;
+    const where = `files[${index}]`;
+    if (!f || (f.field !== 'audio' && f.field !== 'images')) {
+      throw new UploadError(`${where}.field must be "audio" or "images"`, 400);
+    }
+    if (typeof f.name !== 'string' || !f.name.trim() || typeof f.type !== 'string') {
+      throw new UploadError(`${where} needs a "name" and a "type"`, 400);
+    }
+    if (!f.type.startsWith(f.field === 'audio' ? 'audio/' : 'image/')) {
+      throw new UploadError(`${where} must be ${f.field === 'audio' ? 'audio' : 'an image'}`, 400);
+    }
+    if (!storedExtension(f.type)) {
+      throw new UploadError(`${where}: files of type ${f.type} are not accepted`, 415);
+    }
+    if (typeof f.size !== 'number' || !Number.isInteger(f.size) || f.size <= 0) {
+      throw new UploadError(`${where}.size must be a positive number of bytes`, 400);
+    }
+    if (f.size > config.uploads.maxFileBytes) {
+      throw new UploadError(`${f.name} is larger than the ${config.uploads.maxFileBytes} byte limit`, 413);
+    }
+    if (f.sha256 !== undefined && (typeof f.sha256 !== 'string' || !/^[0-9a-f]{64}$/i.test(f.sha256))) {
+      throw new UploadError(`${where}.sha256 must be a hex SHA-256 digest`, 400);
+    }
+    if (f.caption !== undefined && f.field !== 'images') {
+      throw new UploadError(`${where} is not an image and can't have a caption`, 400);
+    }
+    const caption = parseCaption(f.caption, `${where}.caption`);
+    return {
+      field: f.field,
+      name: f.name.trim(),
+      type: f.type,
+      size: f.size,
+      ...(f.sha256 ? { sha256: f.sha256.toLowerCase() } : {}),
+      ...(caption ? { caption } : {}),
+    };
+  });
+
+  if (files.filter((f) => f.field === 'audio').length > 1) {
+    throw new UploadError('At most one audio file is allowed', 400);
+  }
+  if (files.filter((f) => f.field === 'images').length > MAX_IMAGES) {
+    throw new UploadError(`At most ${MAX_IMAGES} images are allowed`, 400);
+  }
+  return files;
+}
+
+function findSessionByKey(projectId: string, key: string): StoredSession | null {
+  const dir = config.uploads.sessionsDir;
+  if (!fs.existsSync(dir)) return null;
+  for (const id of fs.readdirSync(dir)) {
+    if (!SESSION_ID.test(id)) continue;
+    const session = readSession(id);
+    if (session?.projectId === projectId && session.idempotencyKey === key) return session;
+  }
+  return null;
+}
+
+/**
+ * Start an upload of `files` (validated here) into a new note of `projectId`,
+ * which may have no files at all if `options.text` is set.
+ * Starting again with the same idempotency key returns the earlier session,
+ * already complete if its note exists, so a retry only sends what's missing.
+ */
+export function createUploadSession(
+  projectId: string,
+  files: unknown,
+  options: UploadOptions = {}
+): UploadSession {
+  if (!getProject(projectId)) throw new UploadError('Project not found', 404);
+  purgeStaleUploadSessions();
+  const parsedFiles = parseFiles(files);
+  requireContent(parsedFiles.length > 0, options);
+
+  const key = options.idempotencyKey;
+  const earlier = key ? findSessionByKey(projectId, key) : null;
+  if (earlier) return withProgress(earlier);
+  const existing = key ? findNoteByIdempotencyKey(projectId, key) : null;
+
+  const now = new Date().toISOString();
+  const session: StoredSession = {
+    id: generateId(),
+    projectId,
+    createdAt: now,
+    updatedAt: now,
+    chunkSize: config.uploads.chunkBytes,
+    files: parsedFiles,
+    ...options,
+    ...(existing ? { completed: { noteId: existing.id, jobId: existing.jobId ?? '' } } : {}),
+  };
+  fs.mkdirSync(sessionDir(session.id), { recursive: true });
+  writeSession(session);
+  return withProgress(session);
+}
+
+/** Where an upload has got to, so a client can resume it. */
+export function getUploadSession(id: string): UploadSession | null {
+  const session = readSession(id);
+  return session ? withProgress(session) : null;
+}
+
+/**
+ * Append `chunk` to file `index`, which must have exactly `offset` bytes so
+ * far (answered with 409 otherwise, so the client can pick up from there).
+ * `checksum` is the chunk's base64 SHA-256, when the client sent one.
+ * Returns the bytes received.
+ */
+export function appendChunk(
+  id: string,
+  index: number,
+  offset: number,
+  chunk: Buffer,
+  checksum?: string
+): number {
+  if (checksum) {
+    const actual = crypto.createHash('sha256').update(chunk).digest('base64');
+    if (actual !== checksum) throw new UploadError('Chunk checksum mismatch', 422);
+  }
+  if (!readSession(id)) throw new UploadError('Upload not found', 404);
+
+  // A retry can race the request it repeats: one append at a time, with the
+  // offset checked once we hold the lock
+  return withFileLock(path.join(sessionDir(id), 'lock'), () => {
+    const session = readSession(id);
+    if (!session) throw new UploadError('Upload not found', 404);
+    if (session.completed) throw new UploadError('Upload is already complete', 409);
+    const file = session.files[index];
+    if (!file) throw new UploadError('File not found in this upload', 404);
+
+    const part = partPath(id, index);
+    const received = sizeOf(part);
+    if (offset !== received) {
+      throw new UploadError(`Expected a chunk at offset ${received}`, 409, received);
+    }
+    if (received + chunk.length > file.size) {
+      throw new UploadError('Chunk runs past the end of the file', 400);
+    }
+
+    fs.appendFileSync(part, chunk);
+    writeSession({ ...session, updatedAt: new Date().toISOString() });
+    return received + chunk.length;
+  });
+}
+
+async function sha256Of(file: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const data of fs.createReadStream(file)) hash.update(data);
+  return hash.digest('hex');
+}
+
+function moveFile(from: string, to: string): void {
+  try {
+    fs.renameSync(from, to);
+  } catch (e) {
+    // The sessions folder may be on another disk than the uploads
+    if ((e as NodeJS.ErrnoException).code !== 'EXDEV') throw e;
+    fs.copyFileSync(from, to);
+    fs.rmSync(from);
+  }
+}
+
+// Completions in progress; checking checksums yields to other requests
+const completing = new Set<string>();
+
+/**
+ * Check every file arrived whole and matches its checksum, then move them
+ * to the uploads folder and create the note. Completing twice returns the
+ * same note, so a client that lost the first response can safely retry.
+ */
+export async function completeUploadSession(
+  id: string
+): Promise<{ noteId: string; jobId: string; note: Note | null }> {
+  const session = readSession(id);
+  if (!session) throw new UploadError('Upload not found', 404);
+  if (session.completed) {
+    const project = getProject(session.projectId);
+    const note = project?.notes.find((n) => n.id === session.completed!.noteId) ?? null;
+    return { ...session.completed, note };
+  }
+  if (completing.has(id)) throw new UploadError('Upload is already being completed', 409);
+
+  completing.add(id);
+  try {
+    // Another upload with this key got there first: keep its note
+    const existing = session.idempotencyKey
+      ? findNoteByIdempotencyKey(session.projectId, session.idempotencyKey)
+      : null;
+    if (existing) {
+      session.files.forEach((_, index) => fs.rmSync(partPath(id, index), { force: true }));
+      const completed = { noteId: existing.id, jobId: existing.jobId ?? '' };
+      writeSession({ ...session, completed, updatedAt: new Date().toISOString() });
+      return { ...completed, note: existing };
+    }
+
+    for (const [index, file] of session.files.entries()) {
+      const part = partPath(id, index);
+      const received = sizeOf(part);
+      if (received !== file.size) {
+        throw new UploadError(`${file.name} is incomplete (${received} of ${file.size} bytes)`, 409);
+      }
+      if (file.sha256 && (await sha256Of(part)) !== file.sha256) {
+        // Start that file over rather than keep bytes we know are wrong
+        fs.rmSync(part, { force: true });
+        throw new UploadError(`${file.name} failed its checksum; upload it again`, 422);
+      }
+    }
+
+    const stamp = Date.now();
+    const moved = session.files.map((file, index) => {
+      const name = storedFileName(`${stamp}_${index}`, file.name, file.type);
+      return { file, from: partPath(id, index), name };
+    });
+    moved.forEach(({ from, name }) => moveFile(from, path.join(uploadDir, name)));
+
+    let saved: ReturnType<typeof saveUploadedNote>;
+    try {
+      saved = saveUploadedNote(
+        session.projectId,
+        moved.find((m) => m.file.field === 'audio')?.name,
+        moved
+          .filter((m) => m.file.field === 'images')
+          .map((m) => ({ name: m.name, caption: m.file.caption })),
+        {
+          idempotencyKey: session.idempotencyKey,
+          capturedAt: session.capturedAt,
+          text: session.text,
+        }
+      );
+      if (!saved) throw new UploadError('Project not found', 404);
+    } catch (e) {
+      // Put the files back so the client can retry the completion
+      moved.forEach(({ from, name }) => moveFile(path.join(uploadDir, name), from));
+      throw e;
+    }
+
+    const completed = { noteId: saved.note.id, jobId: saved.jobId };
+    writeSession({ ...session, completed, updatedAt: new Date().toISOString() });
+    return { ...completed, note: saved.note };
+  } finally {
+    completing.delete(id);
+  }
+}
+
+/** Abandon an upload and delete what it had received. */
+export function deleteUploadSession(id: string): boolean {
+  const dir = sessionDir(id);
+  if (!fs.existsSync(dir)) return false;
+  fs.rmSync(dir, { recursive: true, force: true });
+  return true;
+}
+
+/** Delete sessions, finished or not, untouched for UPLOAD_SESSION_TTL_HOURS. */
+export function purgeStaleUploadSessions(now: Date = new Date()): number {
+  const dir = config.uploads.sessionsDir;
+  if (!fs.existsSync(dir)) return 0;
+  const cutoff = now.getTime() - config.uploads.sessionTtlHours * 60 * 60 * 1000;
+  let purged = 0;
+  fs.readdirSync(dir).forEach((id) => {
+    if (!SESSION_ID.test(id)) return;
+    const session = readSession(id);
+    const touched = session ? new Date(session.updatedAt).getTime() : 0;
+    if (touched < cutoff) {
+      fs.rmSync(path.join(dir, id), { recursive: true, force: true });
+      purged++;
+    }
+  });
+  return purged;
+}
@@ -1,7 +1,16 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Uploads are served as they are; don't let a browser guess a riskier
+  // type than their extension gives
+  async headers() {
+    return [
+      {
+        source: "/uploads/:path*",
+        headers: [{ key: "X-Content-Type-Options", value: "nosniff" }],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -3,6 +3,8 @@ import type { AppProps } from 'next/app';
 import { useEffect } from 'react';
 import Head from 'next/head';
 import { useRouter } from 'next/router';
+import OfflineBanner from '../components/OfflineBanner';
+import OutboxIndicator from '../components/OutboxIndicator';
 import '../styles/globals.css';
 
 // Optional: Add analytics or other global providers here
@@ -35,6 +37,16 @@ export default function App({ Component, pageProps }: AppProps) {
     return () => window.removeEventListener('error', handleError);
   }, []);
 
+  // The service worker keeps recent pages readable offline and uploads
+  // recordings saved offline once the connection is back. Not in development,
+  // where its caches would serve stale builds.
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.warn('Service worker registration failed:', error);
+    });
+  }, []);
+
   return (
     <>
       <Head>
@@ -193,6 +205,10 @@ export default function App({ Component, pageProps }: AppProps) {
         `}</style>
 
         <Component {...pageProps} />
+
+        {/* Saved copies shown offline, and recordings waiting to be uploaded */}
+        <OfflineBanner />
+        <OutboxIndicator />
         
         {/* Global notifications container */}
         <div id="notifications" className="fixed top-4 right-4 z-50 space-y-2" />
@@ -0,0 +1,31 @@
+// /pages/api/jobs/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJob } from '../../../lib/data';
+import { ensureJobRunner } from '../../../lib/jobs/runner';
+import type { ProcessingJob } from '../../../types';
+
+type Data =
+  | { job: ProcessingJob }
+  | { error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  // Whoever is polling keeps a runner alive in this process
+  ensureJobRunner();
+
+  const { id } = req.query as { id: string };
+  const job = getJob(id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.setHeader('Cache-Control', 'no-store');
+  return res.status(200).json({ job });
+}
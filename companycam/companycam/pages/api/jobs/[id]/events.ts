@@ -0,0 +1,108 @@
+// /pages/api/jobs/[id]/events.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getJob, StorageError } from '../../../../lib/data';
+import { ensureJobRunner } from '../../../../lib/jobs/runner';
+import { subscribeToJob, toProgressEvent } from '../../../../lib/jobs/events';
+import type { JobProgressEvent } from '../../../../types';
+
+// The job may be running in another server process, whose live events never
+// reach this one; re-reading the store keeps those clients moving too.
+const STORE_POLL_MS = 1_000;
+// Comment lines keep proxies from closing an idle connection
+const KEEPALIVE_MS = 15_000;
+
+const isFinished = (event: JobProgressEvent) =>
+  event.status === 'done' || event.status === 'failed';
+
+// Streams a job's progress as Server-Sent Events until it finishes or fails.
+// Each message is a JSON-encoded JobProgressEvent.
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  ensureJobRunner();
+
+  const { id } = req.query as { id: string };
+  let job;
+  try {
+    job = getJob(id);
+  } catch (error) {
+    console.error('Error reading job:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: 'Storage is unavailable, try again shortly' });
+    }
+    return res.status(500).json({ error: 'Failed to read job' });
+  }
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Stop Next's compression and nginx-style proxies from buffering the stream
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  });
+
+  let lastSent = '';
+  let last: JobProgressEvent | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(poller);
+    clearInterval(keepalive);
+    res.end();
+  };
+
+  const send = (event: JobProgressEvent) => {
+    if (closed) return;
+    const data = JSON.stringify(event);
+    if (data === lastSent) return;
+    lastSent = data;
+    last = event;
+    res.write(`data: ${data}\n\n`);
+    if (isFinished(event)) cleanup();
+  };
+
+  const unsubscribe = subscribeToJob(id, send);
+
+  const poller = setInterval(() => {
+    try {
+      const current = getJob(id);
+      if (!current) return cleanup();
+      // Live events are finer-grained than the store, so never step backwards
+      const event = toProgressEvent(current);
+      if (
+        !last ||
+        last.status !== event.status ||
+        last.step !== event.step ||
+        event.progress > last.progress
+      ) {
+        send(event);
+      }
+    } catch (error) {
+      console.warn(`Job ${id}: progress poll failed`, error);
+    }
+  }, STORE_POLL_MS);
+
+  const keepalive = setInterval(() => {
+    if (!closed) res.write(': keepalive\n\n');
+  }, KEEPALIVE_MS);
+
+  req.on('close', cleanup);
+
+  // Current state first, so late subscribers don't start from zero
+  send(toProgressEvent(job));
+}
+
+// The response is a long-lived stream, not a single body
+export const config = {
+  api: { responseLimit: false },
+};
@@ -1,14 +1,141 @@
 
 // /pages/api/project/[projectId].ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getProject, updateProject, deleteProject } from '../../../lib/data';
-import type { Project } from '../../../types';
+import { getProject, updateProject, deleteProject, StorageError } from '../../../lib/data';
+import { getActor } from '../../../lib/actor';
+import { SUMMARIZERS } from '../../../lib/config';
+import { DEFAULT_REPORT_TEMPLATE, loadReportTemplates } from '../../../lib/processing/reportTemplates';
+import type {
+  Project,
+  ProjectSettings,
+  ReportTemplate,
+  SummarizerKind,
+  VocabularyReplacement,
+} from '../../../types';
 
 type Data = 
   | { project: Project }
   | { success: true }
   | { error: string };
 
+const MAX_REDACT_NAMES = 500;
+const MAX_NAME_LENGTH = 100;
+const MAX_VOCABULARY_TERMS = 200;
+const MAX_TERM_LENGTH = 100;
+
+// Is `id` one of the report templates? Only asked when a project picks a
+// different template, so a broken template file doesn't block unrelated edits.
+function checkReportTemplate(id: unknown): string | null {
+  if (typeof id !== 'string') return '"settings.reportTemplate" must be the id of a report template';
+  let templates: ReportTemplate[];
+  try {
+    templates = loadReportTemplates();
+  } catch (e) {
+    return `Report template "${id}" can't be checked: ${e instanceof Error ? e.message : e}`;
+  }
+  return templates.some((t) => t.id === id)
+    ? null
+    : `"settings.reportTemplate" must be the id of a report template; "${id}" is not one`;
+}
+
+// Validate `settings` from a PUT body. Omitted or null keys fall back to
+// the server defaults.
+function parseProjectSettings(
+  raw: unknown,
+  current: ProjectSettings = {}
+): { settings: ProjectSettings } | { error: string } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { error: '"settings" must be an object' };
+  }
+
+  const settings: ProjectSettings = {};
+  const {
+    summarizer,
+    redactReports,
+    redactNames,
+    language,
+    vocabulary,
+    replacements,
+    reportTemplate,
+  } = raw as Record<string, unknown>;
+  if (summarizer !== undefined && summarizer !== null) {
+    if (!SUMMARIZERS.includes(summarizer as SummarizerKind)) {
+      return { error: `"settings.summarizer" must be one of ${SUMMARIZERS.join(', ')}` };
+    }
+    settings.summarizer = summarizer as SummarizerKind;
+  }
+  if (redactReports !== undefined && redactReports !== null) {
+    if (typeof redactReports !== 'boolean') {
+      return { error: '"settings.redactReports" must be true or false' };
+    }
+    settings.redactReports = redactReports;
+  }
+  if (redactNames !== undefined && redactNames !== null) {
+    if (
+      !Array.isArray(redactNames) ||
+      redactNames.length > MAX_REDACT_NAMES ||
+      !redactNames.every((n) => typeof n === 'string' && n.length <= MAX_NAME_LENGTH)
+    ) {
+      return {
+        error: `"settings.redactNames" must be an array of at most ${MAX_REDACT_NAMES} names`,
+      };
+    }
+    const names = redactNames.map((n: string) => n.trim()).filter(Boolean);
+    if (names.length) settings.redactNames = names;
+  }
+  if (language !== undefined && language !== null && language !== '') {
+    if (typeof language !== 'string' || !/^[a-z]{2,3}$/.test(language.trim())) {
+      return { error: '"settings.language" must be an ISO 639-1 code such as "en"' };
+    }
+    settings.language = language.trim();
+  }
+  if (vocabulary !== undefined && vocabulary !== null) {
+    if (
+      !Array.isArray(vocabulary) ||
+      vocabulary.length > MAX_VOCABULARY_TERMS ||
+      !vocabulary.every((t) => typeof t === 'string' && t.length <= MAX_TERM_LENGTH)
+    ) {
+      return {
+        error: `"settings.vocabulary" must be an array of at most ${MAX_VOCABULARY_TERMS} terms`,
+      };
+    }
+    const terms = vocabulary.map((t: string) => t.trim()).filter(Boolean);
+    if (terms.length) settings.vocabulary = terms;
+  }
+  if (replacements !== undefined && replacements !== null) {
+    const valid =
+      Array.isArray(replacements) &&
+      replacements.length <= MAX_VOCABULARY_TERMS &&
+      replacements.every(
+        (r) =>
+          r &&
+          typeof r.from === 'string' &&
+          typeof r.to === 'string' &&
+          r.from.trim() &&
+          r.from.length <= MAX_TERM_LENGTH &&
+          r.to.length <= MAX_TERM_LENGTH
+      );
+    if (!valid) {
+      return {
+        error: `"settings.replacements" must be at most ${MAX_VOCABULARY_TERMS} { from, to } pairs, each with a "from"`,
+      };
+    }
+    const pairs = replacements.map((r: VocabularyReplacement) => ({
+      from: r.from.trim(),
+      to: r.to.trim(),
+    }));
+    if (pairs.length) settings.replacements = pairs;
+  }
+  if (reportTemplate !== undefined && reportTemplate !== null && reportTemplate !== DEFAULT_REPORT_TEMPLATE.id) {
+    if (reportTemplate !== current.reportTemplate) {
+      const error = checkReportTemplate(reportTemplate);
+      if (error) return { error };
+    }
+    settings.reportTemplate = reportTemplate as string;
+  }
+  return { settings };
+}
+
 export default function handler(
   req: NextApiRequest,
   res: NextApiResponse<Data>
@@ -25,15 +152,28 @@ export default function handler(
 
   if (req.method === 'PUT') {
     try {
-      const { name, description } = req.body;
+      const { name, description, settings } = req.body;
       
       if (!name || typeof name !== 'string') {
         return res.status(400).json({ error: 'Project name is required' });
       }
 
+      const existing = getProject(projectId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+
+      // Settings are replaced as a whole when given, left alone when not
+      const parsedSettings =
+        settings === undefined ? null : parseProjectSettings(settings, existing.settings);
+      if (parsedSettings && 'error' in parsedSettings) {
+        return res.status(400).json({ error: parsedSettings.error });
+      }
+
       const updated = updateProject(projectId, { 
         name: name.trim(), 
-        description: description?.trim() 
+        description: description?.trim(),
+        ...(parsedSettings ? { settings: parsedSettings.settings } : {}),
       });
       
       if (!updated) {
@@ -43,16 +183,27 @@ export default function handler(
       return res.status(200).json({ project: updated });
     } catch (error) {
       console.error('Error updating project:', error);
+      if (error instanceof StorageError) {
+        return res.status(503).json({ error: error.message });
+      }
       return res.status(500).json({ error: 'Failed to update project' });
     }
   }
 
   if (req.method === 'DELETE') {
-    const success = deleteProject(projectId);
-    if (!success) {
-      return res.status(404).json({ error: 'Project not found' });
+    try {
+      const success = deleteProject(projectId, getActor(req));
+      if (!success) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+      return res.status(200).json({ success: true });
+    } catch (error) {
+      console.error('Error deleting project:', error);
+      if (error instanceof StorageError) {
+        return res.status(503).json({ error: error.message });
+      }
+      return res.status(500).json({ error: 'Failed to delete project' });
     }
-    return res.status(200).json({ success: true });
   }
 
   res.setHeader('Allow', ['GET', 'PUT', 'DELETE']);
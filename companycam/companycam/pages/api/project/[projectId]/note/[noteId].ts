@@ -1,11 +1,90 @@
 // /pages/api/project/[projectId]/note/[noteId].ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { removeNoteFromProject, getProject } from '../../../../../lib/data';
+import {
+  removeNoteFromProject,
+  getProject,
+  getNote,
+  updateNote,
+  StorageError,
+} from '../../../../../lib/data';
+import { getActor } from '../../../../../lib/actor';
+import { extractNoteActionItems, flagNoteHazards } from '../../../../../lib/processing/extract';
+import { redactionFields } from '../../../../../lib/processing/redact';
+import type { Note, NoteUpdate, NoteSpeaker, EditableNoteField } from '../../../../../types';
 
 type Data =
   | { success: true }
+  | { success: true; note: Note }
   | { success: false; error: string };
 
+const MAX_TEXT_LENGTH = 100_000;
+const MAX_SPEAKER_NAME_LENGTH = 100;
+
+const EDITABLE_FIELDS: EditableNoteField[] = [
+  'text',
+  'transcription',
+  'summary',
+  'insights',
+  'language',
+  'speakers',
+];
+
+// Validate a PATCH body: only editable fields, each with the right type.
+function parseNoteUpdate(body: unknown): { updates: NoteUpdate } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const updates: NoteUpdate = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (!EDITABLE_FIELDS.includes(key as EditableNoteField)) {
+      return { error: `Field "${key}" cannot be edited` };
+    }
+
+    if (key === 'insights') {
+      if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+        return { error: '"insights" must be an array of strings' };
+      }
+      updates.insights = value.map((v: string) => v.trim()).filter(Boolean);
+      continue;
+    }
+
+    if (key === 'speakers') {
+      const valid =
+        Array.isArray(value) &&
+        value.every(
+          (s) =>
+            s &&
+            typeof s.id === 'string' &&
+            typeof s.name === 'string' &&
+            s.name.trim() &&
+            s.name.length <= MAX_SPEAKER_NAME_LENGTH
+        );
+      if (!valid) {
+        return { error: '"speakers" must be an array of { id, name } with non-empty names' };
+      }
+      updates.speakers = value.map((s: NoteSpeaker) => ({ id: s.id, name: s.name.trim() }));
+      continue;
+    }
+
+    if (typeof value !== 'string') {
+      return { error: `"${key}" must be a string` };
+    }
+    if (value.length > MAX_TEXT_LENGTH) {
+      return { error: `"${key}" is too long` };
+    }
+    if (key === 'language' && !/^[a-z]{2,3}$|^unknown$/.test(value.trim())) {
+      return { error: '"language" must be an ISO 639 code such as "en"' };
+    }
+    updates[key as Exclude<EditableNoteField, 'insights' | 'speakers'>] = value.trim();
+  }
+
+  if (Object.keys(updates).length === 0) {
+    return { error: `Nothing to update (editable fields: ${EDITABLE_FIELDS.join(', ')})` };
+  }
+  return { updates };
+}
+
 export default function handler(
   req: NextApiRequest,
   res: NextApiResponse<Data>
@@ -15,8 +94,8 @@ export default function handler(
     noteId: string;
   };
 
-  if (req.method !== 'DELETE') {
-    res.setHeader('Allow', ['DELETE']);
+  if (!['GET', 'PATCH', 'DELETE'].includes(req.method ?? '')) {
+    res.setHeader('Allow', ['GET', 'PATCH', 'DELETE']);
     return res
       .status(405)
       .json({ success: false, error: `Method ${req.method} Not Allowed` });
@@ -29,12 +108,91 @@ export default function handler(
       .json({ success: false, error: 'Project not found' });
   }
 
-  const updated = removeNoteFromProject(projectId, noteId);
-  if (!updated) {
-    return res
-      .status(404)
-      .json({ success: false, error: 'Note not found or could not be removed' });
+  if (req.method === 'GET') {
+    const note = getNote(projectId, noteId);
+    if (!note) {
+      return res.status(404).json({ success: false, error: 'Note not found' });
+    }
+    return res.status(200).json({ success: true, note });
   }
 
-  return res.status(200).json({ success: true });
+  if (req.method === 'PATCH') {
+    const parsed = parseNoteUpdate(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ success: false, error: parsed.error });
+    }
+
+    try {
+      const existing = getNote(projectId, noteId);
+
+      // Speakers can be renamed, not added or removed: segments refer to them by id
+      if (parsed.updates.speakers) {
+        const known = (existing?.speakers ?? []).map((s) => s.id).sort();
+        const given = parsed.updates.speakers.map((s) => s.id).sort();
+        if (JSON.stringify(known) !== JSON.stringify(given)) {
+          return res
+            .status(400)
+            .json({ success: false, error: 'Speakers can only be renamed, not added or removed' });
+        }
+      }
+
+      // Hand-edited text no longer lines up with the recognised timings (or
+      // speakers). The revision keeps them, so restoring the old text
+      // restores them too.
+      const changesText =
+        parsed.updates.transcription !== undefined &&
+        parsed.updates.transcription !== existing?.transcription;
+      const updates: Partial<Note> =
+        existing?.segments && changesText
+          ? { ...parsed.updates, segments: undefined, speakers: undefined }
+          : { ...parsed.updates };
+      // A transcription typed in by hand stands in for a failed or pending one
+      if (changesText && parsed.updates.transcription) {
+        updates.transcriptionStatus = 'done';
+        updates.transcriptionError = undefined;
+      }
+      // Action items follow the corrected text; ticked ones stay ticked
+      if (existing && changesText) {
+        updates.actionItems = extractNoteActionItems({ ...existing, ...updates });
+      }
+      const changesTypedText =
+        parsed.updates.text !== undefined && parsed.updates.text !== existing?.text;
+      if (existing && (changesText || changesTypedText)) {
+        updates.flags = flagNoteHazards({ ...existing, ...updates });
+      }
+      // Edits can add or remove personal details anywhere
+      if (existing) {
+        Object.assign(updates, redactionFields({ ...existing, ...updates }, project));
+      }
+
+      const note = updateNote(projectId, noteId, updates, getActor(req));
+      if (!note) {
+        return res.status(404).json({ success: false, error: 'Note not found' });
+      }
+      return res.status(200).json({ success: true, note });
+    } catch (error) {
+      console.error('Error updating note:', error);
+      if (error instanceof StorageError) {
+        return res.status(503).json({ success: false, error: error.message });
+      }
+      return res.status(500).json({ success: false, error: 'Failed to update note' });
+    }
+  }
+
+  try {
+    const updated = removeNoteFromProject(projectId, noteId, getActor(req));
+    if (!updated) {
+      return res
+        .status(404)
+        .json({ success: false, error: 'Note not found or could not be removed' });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error deleting note:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to delete note' });
+  }
 }
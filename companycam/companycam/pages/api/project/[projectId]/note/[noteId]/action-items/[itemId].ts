@@ -0,0 +1,49 @@
+// /pages/api/project/[projectId]/note/[noteId]/action-items/[itemId].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { setActionItemDone, StorageError } from '../../../../../../../lib/data';
+import { getActor } from '../../../../../../../lib/actor';
+import type { Note } from '../../../../../../../types';
+
+type Data =
+  | { success: true; note: Note }
+  | { success: false; error: string };
+
+// Check off (or reopen) an action item: PATCH { done: boolean }
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'PATCH') {
+    res.setHeader('Allow', ['PATCH']);
+    return res
+      .status(405)
+      .json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId, itemId } = req.query as {
+    projectId: string;
+    noteId: string;
+    itemId: string;
+  };
+
+  const done = req.body?.done;
+  if (typeof done !== 'boolean') {
+    return res.status(400).json({ success: false, error: '"done" must be true or false' });
+  }
+
+  try {
+    const note = setActionItemDone(projectId, noteId, itemId, done, getActor(req));
+    if (!note) {
+      return res
+        .status(404)
+        .json({ success: false, error: 'Note or action item not found' });
+    }
+    return res.status(200).json({ success: true, note });
+  } catch (error) {
+    console.error('Error updating action item:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to update action item' });
+  }
+}
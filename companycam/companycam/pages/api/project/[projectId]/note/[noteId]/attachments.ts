@@ -0,0 +1,132 @@
+// /pages/api/project/[projectId]/note/[noteId]/attachments.ts
+import { NextApiRequest, NextApiResponse } from 'next';
+import nextConnect from 'next-connect';
+import multer from 'multer';
+import fs from 'fs';
+import path from 'path';
+import { addNoteAttachments, getNote, StorageError } from '../../../../../../lib/data';
+import { getActor } from '../../../../../../lib/actor';
+import {
+  MAX_FILE_SIZE,
+  multipartStorage,
+  storedExtension,
+  UploadError,
+} from '../../../../../../lib/uploads';
+import type { AttachmentKind, Note } from '../../../../../../types';
+
+interface ExtendedNextApiRequest extends NextApiRequest {
+  files?: Express.Multer.File[];
+}
+
+type Data =
+  | { success: true; note: Note }
+  | { success: false; error: string };
+
+const MAX_ATTACHMENTS = 10;
+
+// Spec sheets, quotes, permits and the like
+const DOCUMENT_TYPES = [
+  'application/pdf',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'text/plain',
+  'text/csv',
+];
+
+function attachmentKind(mimetype: string): AttachmentKind | null {
+  // Only what we can store under a safe extension, which leaves out SVG
+  if (!storedExtension(mimetype)) return null;
+  if (mimetype.startsWith('image/')) return 'image';
+  if (mimetype.startsWith('audio/')) return 'audio';
+  if (DOCUMENT_TYPES.includes(mimetype)) return 'document';
+  return null;
+}
+
+const upload = multer({
+  storage: multipartStorage,
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_ATTACHMENTS },
+  fileFilter: (req, file, cb) => {
+    if (file.fieldname === 'files' && attachmentKind(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new UploadError('Only images, audio, PDFs, Office documents or text under “files” allowed', 415));
+    }
+  },
+});
+
+const handler = nextConnect<ExtendedNextApiRequest, NextApiResponse<Data>>({
+  onError: (err, req, res) => {
+    if (err instanceof UploadError) {
+      return res.status(err.status).json({ success: false, error: err.message });
+    }
+    if (err instanceof multer.MulterError) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ success: false, error: err.message });
+    }
+    console.error('Attachment Error:', err);
+    res.status(500).json({ success: false, error: err.message || 'Server error' });
+  },
+  onNoMatch: (req, res) => {
+    res.setHeader('Allow', ['POST']);
+    res.status(405).json({ success: false, error: `Method ${req.method} Not Allowed` });
+  },
+});
+handler.use(upload.array('files', MAX_ATTACHMENTS));
+
+function discardFiles(req: ExtendedNextApiRequest) {
+  (req.files ?? []).forEach((f) => fs.rmSync(f.path, { force: true }));
+}
+
+// Add photos, recordings or documents to a note that already exists, e.g.
+// the photo taken after the fix. Send them as repeated `files` fields.
+handler.post(async (req: ExtendedNextApiRequest, res) => {
+  const { projectId, noteId } = req.query as {
+    projectId: string;
+    noteId: string;
+  };
+  const files = req.files ?? [];
+  if (files.length === 0) {
+    return res.status(400).json({ success: false, error: 'No files to attach' });
+  }
+
+  try {
+    if (!getNote(projectId, noteId)) {
+      discardFiles(req);
+      return res.status(404).json({ success: false, error: 'Note not found' });
+    }
+
+    const note = addNoteAttachments(
+      projectId,
+      noteId,
+      files.map((f) => ({
+        kind: attachmentKind(f.mimetype)!,
+        file: path.basename(f.path),
+        name: f.originalname,
+        size: f.size,
+        type: f.mimetype,
+      })),
+      getActor(req)
+    );
+    if (!note) {
+      discardFiles(req);
+      return res.status(404).json({ success: false, error: 'Note not found' });
+    }
+    return res.status(200).json({ success: true, note });
+  } catch (error) {
+    console.error('Error attaching files:', error);
+    discardFiles(req);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to attach files' });
+  }
+});
+
+// Multer reads the body itself
+export const config = {
+  api: { bodyParser: false },
+};
+
+export default handler;
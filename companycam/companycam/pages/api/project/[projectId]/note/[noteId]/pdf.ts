@@ -0,0 +1,54 @@
+// /pages/api/project/[projectId]/note/[noteId]/pdf.ts
+import fs from 'fs';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getProject, StorageError } from '../../../../../../lib/data';
+import { getNotePdf } from '../../../../../../lib/processing/notePdf';
+
+// PDFs with photos can be large
+export const config = { api: { responseLimit: false } };
+
+/**
+ * The note's PDF report, rendered from its current data the first time it's
+ * asked for after a change and served from the cache after that.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId } = req.query as { projectId: string; noteId: string };
+
+  try {
+    const project = getProject(projectId);
+    const note = project?.notes.find((n) => n.id === noteId);
+    if (!project || !note) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+
+    const pdf = await getNotePdf(project, note);
+    const etag = `"${pdf.key}"`;
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'private, no-cache');
+    if (req.headers['if-none-match'] === etag) {
+      return res.status(304).end();
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Length', fs.statSync(pdf.path).size);
+    res.setHeader('Content-Disposition', `attachment; filename="note-${note.id}.pdf"`);
+    await new Promise<void>((resolve, reject) => {
+      fs.createReadStream(pdf.path).on('error', reject).pipe(res).on('finish', resolve);
+    });
+  } catch (error) {
+    console.error('Error rendering note PDF:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to render PDF' });
+  }
+}
@@ -0,0 +1,41 @@
+// /pages/api/project/[projectId]/note/[noteId]/restore.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { restoreNote, StorageError } from '../../../../../../lib/data';
+import type { Note } from '../../../../../../types';
+
+type Data =
+  | { success: true; note: Note }
+  | { success: false; error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res
+      .status(405)
+      .json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId } = req.query as {
+    projectId: string;
+    noteId: string;
+  };
+
+  try {
+    const note = restoreNote(projectId, noteId);
+    if (!note) {
+      return res
+        .status(404)
+        .json({ success: false, error: 'Note not found in trash (or its project is trashed)' });
+    }
+    return res.status(200).json({ success: true, note });
+  } catch (error) {
+    console.error('Error restoring note:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to restore note' });
+  }
+}
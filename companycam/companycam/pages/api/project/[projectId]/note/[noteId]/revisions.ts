@@ -0,0 +1,31 @@
+// /pages/api/project/[projectId]/note/[noteId]/revisions.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getNoteHistory } from '../../../../../../lib/data';
+import type { NoteRevision } from '../../../../../../types';
+
+type Data =
+  | { success: true; revisions: NoteRevision[] }
+  | { success: false; error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res
+      .status(405)
+      .json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId } = req.query as {
+    projectId: string;
+    noteId: string;
+  };
+
+  const revisions = getNoteHistory(projectId, noteId);
+  if (!revisions) {
+    return res.status(404).json({ success: false, error: 'Note not found' });
+  }
+  return res.status(200).json({ success: true, revisions });
+}
@@ -0,0 +1,43 @@
+// /pages/api/project/[projectId]/note/[noteId]/revisions/[revisionId]/restore.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { restoreNoteRevision, StorageError } from '../../../../../../../../lib/data';
+import { getActor } from '../../../../../../../../lib/actor';
+import type { Note } from '../../../../../../../../types';
+
+type Data =
+  | { success: true; note: Note }
+  | { success: false; error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res
+      .status(405)
+      .json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId, revisionId } = req.query as {
+    projectId: string;
+    noteId: string;
+    revisionId: string;
+  };
+
+  try {
+    const note = restoreNoteRevision(projectId, noteId, revisionId, getActor(req));
+    if (!note) {
+      return res
+        .status(404)
+        .json({ success: false, error: 'Note or revision not found' });
+    }
+    return res.status(200).json({ success: true, note });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to restore revision' });
+  }
+}
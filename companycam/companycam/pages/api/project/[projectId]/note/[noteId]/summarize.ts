@@ -0,0 +1,77 @@
+// /pages/api/project/[projectId]/note/[noteId]/summarize.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getProject, getNote, updateNote, StorageError } from '../../../../../../lib/data';
+import { SUMMARIZERS } from '../../../../../../lib/config';
+import { getActor } from '../../../../../../lib/actor';
+import { summarizeNote } from '../../../../../../lib/processing/summarize';
+import { redactionFields } from '../../../../../../lib/processing/redact';
+import type { Note, SummarizerKind } from '../../../../../../types';
+
+type Data =
+  | { success: true; note: Note }
+  | { success: false; error: string };
+
+// Re-run summarisation on an existing note, with the project's summarizer or
+// the one named in the body ({ "summarizer": "llm" }). Hand edits to the
+// summary are replaced, but stay in the note's revision history.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res
+      .status(405)
+      .json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId } = req.query as {
+    projectId: string;
+    noteId: string;
+  };
+
+  const requested: unknown = req.body?.summarizer;
+  if (requested !== undefined && !SUMMARIZERS.includes(requested as SummarizerKind)) {
+    return res.status(400).json({
+      success: false,
+      error: `"summarizer" must be one of ${SUMMARIZERS.join(', ')}`,
+    });
+  }
+
+  try {
+    const project = getProject(projectId);
+    const note = project && getNote(projectId, noteId);
+    if (!project || !note) {
+      return res.status(404).json({ success: false, error: 'Note not found' });
+    }
+    if (note.processingStatus === 'pending') {
+      return res
+        .status(409)
+        .json({ success: false, error: 'Note is still being processed' });
+    }
+
+    const summary = await summarizeNote(note, project, requested as SummarizerKind | undefined);
+    if (!summary) {
+      return res
+        .status(400)
+        .json({ success: false, error: 'Note has no transcription or text to summarize' });
+    }
+
+    const updated = updateNote(
+      projectId,
+      noteId,
+      { ...summary, ...redactionFields({ ...note, ...summary }, project) },
+      getActor(req)
+    );
+    if (!updated) {
+      return res.status(404).json({ success: false, error: 'Note not found' });
+    }
+    return res.status(200).json({ success: true, note: updated });
+  } catch (error) {
+    console.error('Error summarizing note:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to summarize note' });
+  }
+}
@@ -0,0 +1,61 @@
+// /pages/api/project/[projectId]/note/[noteId]/transcribe.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getNote, requeueNoteProcessing, StorageError } from '../../../../../../lib/data';
+import { config } from '../../../../../../lib/config';
+import { getActor } from '../../../../../../lib/actor';
+import { kickJobRunner } from '../../../../../../lib/jobs/runner';
+import type { Note } from '../../../../../../types';
+
+type Data =
+  | { success: true; note: Note; jobId: string }
+  | { success: false; error: string };
+
+// Re-run transcription (and everything after it) on the note's stored audio.
+// Progress can be followed through /api/jobs/[jobId] like a fresh upload.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res
+      .status(405)
+      .json({ success: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, noteId } = req.query as {
+    projectId: string;
+    noteId: string;
+  };
+
+  try {
+    const note = getNote(projectId, noteId);
+    if (!note) {
+      return res.status(404).json({ success: false, error: 'Note not found' });
+    }
+    if (!note.audio) {
+      return res.status(400).json({ success: false, error: 'Note has no audio to transcribe' });
+    }
+
+    const queued = requeueNoteProcessing(
+      projectId,
+      noteId,
+      config.jobs.maxAttempts,
+      getActor(req)
+    );
+    if (!queued) {
+      return res
+        .status(409)
+        .json({ success: false, error: 'Note is already being processed' });
+    }
+
+    kickJobRunner();
+    return res.status(202).json({ success: true, note: queued.note, jobId: queued.job.id });
+  } catch (error) {
+    console.error('Error queueing transcription:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ success: false, error: error.message });
+    }
+    return res.status(500).json({ success: false, error: 'Failed to queue transcription' });
+  }
+}
@@ -0,0 +1,107 @@
+// /pages/api/project/[projectId]/report.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getProject, getProjectStats, StorageError } from '../../../../lib/data';
+import { noteForReport } from '../../../../lib/processing/redact';
+import { renderProjectReport } from '../../../../lib/processing/projectPdf';
+import { getReportTemplate } from '../../../../lib/processing/reportTemplates';
+import { FILTERS, matchesFilter } from '../../../../utils/notes';
+import type { FilterBy } from '../../../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FILTER_LABELS: Record<FilterBy, string> = {
+  all: 'All notes',
+  audio: 'Audio notes',
+  images: 'Notes with images',
+  transcribed: 'Transcribed notes',
+  safety: 'Safety flagged notes',
+};
+
+// YYYY-MM-DD (UTC), or undefined when not given. Days that don't exist, like
+// 2025-02-31, are refused rather than rolled over into the next month.
+function parseDay(value: unknown, name: string): { day?: Date } | { error: string } {
+  if (value === undefined || value === '') return {};
+  const error = { error: `"${name}" must be a date like 2025-06-30` };
+  const match = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) return error;
+
+  const [year, month, date] = match.slice(1).map(Number);
+  const day = new Date(Date.UTC(year, month - 1, date));
+  if (
+    day.getUTCFullYear() !== year ||
+    day.getUTCMonth() !== month - 1 ||
+    day.getUTCDate() !== date
+  ) {
+    return error;
+  }
+  return { day };
+}
+
+// Large reports are streamed out as they render
+export const config = { api: { responseLimit: false } };
+
+/**
+ * The whole project as one PDF, oldest note first. Optional query:
+ * `from` / `to` (YYYY-MM-DD, inclusive) and `filter` (same values as the
+ * project page's filter).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, from, to, filter = 'all' } = req.query;
+  const fromDay = parseDay(from, 'from');
+  const toDay = parseDay(to, 'to');
+  if ('error' in fromDay) return res.status(400).json({ error: fromDay.error });
+  if ('error' in toDay) return res.status(400).json({ error: toDay.error });
+  if (!FILTERS.includes(filter as FilterBy)) {
+    return res.status(400).json({ error: `"filter" must be one of ${FILTERS.join(', ')}` });
+  }
+
+  try {
+    const project = getProject(projectId as string);
+    const stats = getProjectStats(projectId as string);
+    if (!project || !stats) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const start = fromDay.day?.getTime() ?? -Infinity;
+    const end = toDay.day ? toDay.day.getTime() + DAY_MS : Infinity;
+    const notes = project.notes
+      .filter((note) => {
+        const time = new Date(note.timestamp).getTime();
+        return time >= start && time < end && matchesFilter(note, filter as FilterBy);
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .map((note) => noteForReport(note, project));
+
+    const scope = [
+      filter !== 'all' ? FILTER_LABELS[filter as FilterBy] : null,
+      from || to ? `${from || 'start'} to ${to || 'today'}` : null,
+    ]
+      .filter(Boolean)
+      .join(', ');
+    const template = getReportTemplate(project.settings?.reportTemplate);
+    const filename = `${project.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'project'}-report.pdf`;
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    await renderProjectReport(project, notes, stats, res, {
+      scope,
+      redacted: !!project.settings?.redactReports,
+      template,
+    });
+  } catch (error) {
+    console.error('Error rendering project report:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to render report' });
+  }
+}
@@ -0,0 +1,34 @@
+// /pages/api/project/[projectId]/restore.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { restoreProject, StorageError } from '../../../../lib/data';
+import type { Project } from '../../../../types';
+
+type Data =
+  | { project: Project }
+  | { error: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId } = req.query as { projectId: string };
+
+  try {
+    const project = restoreProject(projectId);
+    if (!project) {
+      return res.status(404).json({ error: 'Project not found in trash' });
+    }
+    return res.status(200).json({ project });
+  } catch (error) {
+    console.error('Error restoring project:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to restore project' });
+  }
+}
@@ -1,6 +1,6 @@
 // /pages/api/projects.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { getAllProjects, createProject, getGlobalStats } from '../../lib/data';
+import { getAllProjects, createProject, getGlobalStats, StorageError } from '../../lib/data';
 import type { Project } from '../../types';
 
 type Stats = {
@@ -42,6 +42,9 @@ export default function handler(req: NextApiRequest, res: NextApiResponse<Data>)
       return res.status(201).json({ project: newProj });
     } catch (e) {
       console.error('Error in POST /api/projects:', e);
+      if (e instanceof StorageError) {
+        return res.status(503).json({ error: e.message });
+      }
       return res.status(500).json({ error: 'Failed to create project' });
     }
   }
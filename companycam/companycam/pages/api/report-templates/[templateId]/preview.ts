@@ -0,0 +1,90 @@
+// /pages/api/report-templates/[templateId]/preview.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getProject, StorageError } from '../../../../lib/data';
+import { notePhotoPaths } from '../../../../lib/media';
+import { renderNoteReport } from '../../../../lib/processing/pdf';
+import { noteForReport } from '../../../../lib/processing/redact';
+import { loadReportTemplates } from '../../../../lib/processing/reportTemplates';
+import type { Note } from '../../../../types';
+
+// Photos make previews large, so stream them out
+export const config = { api: { responseLimit: false } };
+
+// Shows every section a template can have when there's no real note to use
+const SAMPLE_NOTE: Note = {
+  id: 'sample',
+  timestamp: '2025-05-14T09:30:00.000Z',
+  text: 'Walked the second floor with the framing crew before the inspection.',
+  transcription:
+    'Second floor framing is done apart from the stair opening. There is an open floor edge by the stairwell with no guardrail, so Mike will put a rail up before Friday. Drywall delivery is booked for Monday.',
+  summary: 'Framing on the second floor is nearly finished; the stairwell edge needs a guardrail.',
+  topics: ['framing', 'stairwell', 'drywall'],
+  insights: ['Stair opening is the last framing item', 'Drywall arrives Monday'],
+  actionItems: [
+    { id: 'sample-1', text: 'Put a guardrail up at the stairwell', assignee: 'Mike', due: 'Friday', done: false },
+    { id: 'sample-2', text: 'Confirm the drywall delivery', done: true },
+  ],
+  flags: [
+    {
+      rule: 'fall-protection',
+      label: 'Fall protection',
+      severity: 'high',
+      match: 'no guardrail',
+      excerpt: 'open floor edge by the stairwell with no guardrail',
+    },
+  ],
+};
+
+/**
+ * GET ?projectId= renders the template with that project's latest note (as
+ * its reports would show it), or with a sample note, as an inline PDF.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { templateId, projectId } = req.query as { templateId: string; projectId?: string };
+
+  try {
+    const template = loadReportTemplates().find((t) => t.id === templateId);
+    if (!template) {
+      return res.status(404).json({ error: 'Report template not found' });
+    }
+
+    let projectName = 'Sample Project';
+    let note = SAMPLE_NOTE;
+    let images: string[] = [];
+    let redacted = false;
+    if (projectId) {
+      const project = getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ error: 'Project not found' });
+      }
+      projectName = project.name;
+      const latest = project.notes
+        .filter((n) => n.processingStatus !== 'pending')
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+      if (latest) {
+        note = noteForReport(latest, project);
+        images = notePhotoPaths(latest);
+        redacted = !!project.settings?.redactReports;
+      }
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${template.id}-preview.pdf"`);
+    await renderNoteReport(note, projectName, images, res, { template, redacted });
+  } catch (error) {
+    console.error('Error rendering template preview:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to render preview' });
+  }
+}
@@ -0,0 +1,22 @@
+// /pages/api/report-templates/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { loadReportTemplates, summarizeTemplate } from '../../../lib/processing/reportTemplates';
+import type { ReportTemplateSummary } from '../../../types';
+
+type Data =
+  | { templates: ReportTemplateSummary[] }
+  | { error: string };
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    return res.status(200).json({ templates: loadReportTemplates().map(summarizeTemplate) });
+  } catch (error) {
+    console.error('Error loading report templates:', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to load report templates' });
+  }
+}
@@ -0,0 +1,18 @@
+// /pages/api/trash.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getTrash } from '../../lib/data';
+import { config } from '../../lib/config';
+import type { TrashContents } from '../../types';
+
+type Data =
+  | TrashContents
+  | { error: string };
+
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  return res.status(200).json(getTrash(config.trash.retentionDays));
+}
@@ -0,0 +1,41 @@
+// /pages/api/trash/purge.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { StorageError } from '../../../lib/data';
+import { runTrashPurge, PurgeResult } from '../../../lib/trash';
+
+type Data =
+  | PurgeResult
+  | { error: string };
+
+// Called daily by the Vercel cron in vercel.json (GET), or by hand (POST).
+// When CRON_SECRET is set, Vercel sends it as a bearer token and we require it.
+// Without one, only POST purges: a GET can come from any link or prefetch.
+// The job runner also purges on its own (lib/jobs/runner.ts).
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (secret && req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+  if (!secret && req.method === 'GET') {
+    return res
+      .status(401)
+      .json({ error: 'Set CRON_SECRET to purge with GET, or send a POST' });
+  }
+
+  try {
+    const result = runTrashPurge();
+    console.log(`Trash purge: ${result.projects} projects, ${result.notes} notes`);
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to purge trash' });
+  }
+}
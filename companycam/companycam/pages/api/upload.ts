@@ -4,11 +4,18 @@ import nextConnect from 'next-connect';
 import multer from 'multer';
 import fs from 'fs';
 import path from 'path';
-import os from 'os';
-import { spawn } from 'child_process';
-import { getProject, addNoteToProject } from '../../lib/data';
-import { Note, TranscriptionResult, UploadResponse } from '../../types';
-import PDFDocument from 'pdfkit';
+import { getProject, StorageError } from '../../lib/data';
+import { isProd } from '../../lib/media';
+import {
+  MAX_FILE_SIZE,
+  multipartStorage,
+  storedExtension,
+  parseCaptions,
+  parseUploadOptions,
+  saveUploadedNote,
+  UploadError,
+} from '../../lib/uploads';
+import { UploadResponse } from '../../types';
 
 // Extend NextApiRequest so we get `files`
 interface ExtendedNextApiRequest extends NextApiRequest {
@@ -18,45 +25,34 @@ interface ExtendedNextApiRequest extends NextApiRequest {
   };
 }
 
-// Are we in production on Vercel?
-const isProd = process.env.NODE_ENV === 'production';
-
-// Choose an upload folder that’s writable:
-const baseDir = isProd ? os.tmpdir() : path.join(process.cwd(), 'public');
-const uploadDir = path.join(baseDir, 'uploads');
-const reportsDir = path.join(baseDir, 'reports');
-
-// Create the folders if they don’t exist yet
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-if (!fs.existsSync(reportsDir)) {
-  fs.mkdirSync(reportsDir, { recursive: true });
-}
-
 // Multer setup
-const storage = multer.diskStorage({
-  destination: uploadDir,
-  filename: (_, file, cb) => {
-    cb(null, `${Date.now()}_${file.originalname}`);
-  }
-});
 const upload = multer({
-  storage,
-  limits: { fileSize: 50 * 1024 * 1024, files: 11 },
+  storage: multipartStorage,
+  limits: { fileSize: MAX_FILE_SIZE, files: 11 },
   fileFilter: (req, file, cb) => {
-    if (file.fieldname === 'audio' && file.mimetype.startsWith('audio/')) {
+    if (!storedExtension(file.mimetype)) {
+      cb(new UploadError(`Files of type ${file.mimetype} are not accepted`, 415));
+    } else if (file.fieldname === 'audio' && file.mimetype.startsWith('audio/')) {
       cb(null, true);
     } else if (file.fieldname === 'images' && file.mimetype.startsWith('image/')) {
       cb(null, true);
     } else {
-      cb(new Error('Only audio under field “audio” or images under “images” allowed'));
+      cb(new UploadError('Only audio under field “audio” or images under “images” allowed', 415));
     }
   }
 });
 
 const handler = nextConnect<ExtendedNextApiRequest, NextApiResponse<UploadResponse>>({
+  // Rejected files are the client's problem (4xx), so an offline retry gives
+  // up on them instead of trying again forever
   onError: (err, req, res) => {
+    if (err instanceof UploadError) {
+      return res.status(err.status).json({ ok: false, error: err.message });
+    }
+    if (err instanceof multer.MulterError) {
+      const status = err.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      return res.status(status).json({ ok: false, error: err.message });
+    }
     console.error('Upload Error:', err);
     res.status(500).json({ ok: false, error: err.message || 'Server error' });
   },
@@ -66,330 +62,75 @@ const handler = nextConnect<ExtendedNextApiRequest, NextApiResponse<UploadRespon
 });
 handler.use(upload.fields([{ name: 'audio', maxCount: 1 }, { name: 'images', maxCount: 10 }]));
 
-// -------------- TRANSLATION / TRANSCRIPTION LOGIC --------------
-async function runPythonTranscribe(audioPath: string): Promise<TranscriptionResult> {
-  // We only call this in development:
-  return new Promise((resolve) => {
-    const scriptPath = path.join(process.cwd(), 'python', 'transcribe.py');
-    if (!fs.existsSync(scriptPath)) {
-      console.warn('Dev: transcribe.py missing → fallback');
-      return resolve({
-        success: true,
-        language: 'en',
-        language_probability: 0.95,
-        text: 'Audio note recorded – transcription script not available',
-        duration: 60
-      });
-    }
-    if (!fs.existsSync(audioPath)) {
-      return resolve({
-        success: false,
-        error: 'Audio file not found'
-      });
-    }
-
-    let stdout = '';
-    let stderr = '';
-    let didResolve = false;
-
-    let pyProc;
-    try {
-      pyProc = spawn('python3', [scriptPath, audioPath], {
-        env: {
-          ...process.env,
-          WHISPER_MODEL_SIZE: 'base',
-          WHISPER_DEVICE: 'cpu',
-          WHISPER_COMPUTE_TYPE: 'int8'
-        }
-      });
-    } catch (spawnErr) {
-      console.warn('Failed to spawn Python → fallback', spawnErr);
-      return resolve({
-        success: true,
-        language: 'en',
-        language_probability: 0.95,
-        text: 'Audio note recorded – Python failed to start',
-        duration: 60
-      });
-    }
-
-    pyProc.stdout.on('data', (data: Buffer) => {
-      stdout += data.toString();
-    });
-    pyProc.stderr.on('data', (data: Buffer) => {
-      stderr += data.toString();
-      console.log('Whisper stderr:', data.toString().trim());
-    });
-
-    pyProc.on('close', (code) => {
-      if (didResolve) return;
-      didResolve = true;
-      if (code === 0 && stdout.trim()) {
-        try {
-          const cleanOutput = stdout.trim();
-          const start = cleanOutput.indexOf('{');
-          const end = cleanOutput.lastIndexOf('}') + 1;
-          if (start < 0 || end < 0) throw new Error('No JSON found');
-          const jsonStr = cleanOutput.slice(start, end);
-          const result: TranscriptionResult = JSON.parse(jsonStr);
-          if (result.success && result.text) {
-            return resolve(result);
-          } else {
-            throw new Error(result.error || 'No text returned');
-          }
-        } catch (parseErr) {
-          console.warn('Parse error → fallback', parseErr, stdout);
-          return resolve({
-            success: true,
-            language: 'en',
-            language_probability: 0.95,
-            text: 'Audio note recorded – parse failed',
-            duration: 60
-          });
-        }
-      } else {
-        console.warn(`Python exited ${code} → fallback`, stderr);
-        return resolve({
-          success: true,
-          language: 'en',
-          language_probability: 0.95,
-          text: 'Audio note recorded – transcription process failed',
-          duration: 60
-        });
-      }
-    });
-
-    pyProc.on('error', (err) => {
-      if (didResolve) return;
-      didResolve = true;
-      console.warn('Python process error → fallback', err);
-      return resolve({
-        success: true,
-        language: 'en',
-        language_probability: 0.95,
-        text: 'Audio note recorded – process error',
-        duration: 60
-      });
-    });
-
-    // Timeout after 60s
-    setTimeout(() => {
-      if (didResolve) return;
-      didResolve = true;
-      if (pyProc) pyProc.kill();
-      console.warn('Transcription timed out → fallback');
-      return resolve({
-        success: true,
-        language: 'en',
-        language_probability: 0.95,
-        text: 'Audio note recorded – transcription timed out',
-        duration: 60
-      });
-    }, 60_000);
-  });
-}
-
-async function transcribeAudio(audioPath: string): Promise<TranscriptionResult> {
-  if (!isProd) {
-    // Dev → try real Python
-    return runPythonTranscribe(audioPath);
-  }
-  // Production (Vercel) → always fallback
-  return {
-    success: true,
-    language: 'en',
-    language_probability: 0.95,
-    text: `Audio note recorded on ${new Date().toLocaleDateString()}`,
-    duration: 60
-  };
-}
-
-// -------------- NOTE CREATION --------------
-async function createNote(
-  audioPath: string,
-  imagePaths: string[],
-  transcriptionResult: TranscriptionResult
-): Promise<Note> {
-  const timestamp = new Date().toISOString();
-  const audioBasename = path.basename(audioPath);
-  const imageBasenames = imagePaths.map(p => path.basename(p));
-
-  // summary = first 10 words of transcription
-  let summary = 'Audio note recorded';
-  if (transcriptionResult.text) {
-    const words = transcriptionResult.text.trim().split(/\s+/);
-    summary = words.slice(0, 10).join(' ');
-    if (words.length > 10) summary += '…';
-  }
-
-  const note: Note = {
-    id: Date.now().toString(),
-    timestamp,
-    audio: audioBasename,
-    images: imageBasenames,
-    transcription: transcriptionResult.text || '',
-    language: transcriptionResult.language || 'unknown',
-    summary,
-    duration: transcriptionResult.duration ? Math.round(transcriptionResult.duration) : undefined,
-    insights: [
-      `Duration: ${transcriptionResult.duration ? Math.round(transcriptionResult.duration) : 0}s`,
-      `Language: ${transcriptionResult.language || 'unknown'}`,
-      `Confidence: ${transcriptionResult.language_probability ? Math.round(transcriptionResult.language_probability * 100) : 0}%`,
-      isProd
-        ? 'Note: fallback transcription (production)'
-        : 'Processed with AI transcription (development)',
-    ]
-  };
-  return note;
-}
-
-// -------------- PDF GENERATION --------------
-async function generatePdfReport(
-  note: Note,
-  projectName: string,
-  fullImagePaths: string[]
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    try {
-      const pdfFilename = `${note.id}.pdf`;
-      const pdfPath = path.join(reportsDir, pdfFilename);
-      const doc = new PDFDocument({ autoFirstPage: true });
-      const writeStream = fs.createWriteStream(pdfPath);
-      doc.pipe(writeStream);
-
-      // Title
-      doc.fontSize(18).text(`Project: ${projectName}`, { underline: true });
-      doc.moveDown(0.5);
-
-      // Metadata
-      doc.fontSize(12).text(`Note ID: ${note.id}`);
-      doc.text(`Timestamp: ${note.timestamp}`);
-      doc.moveDown(0.5);
-
-      // Transcription
-      doc.fontSize(14).text('Transcription:', { underline: true });
-      doc.moveDown(0.25);
-      doc.fontSize(12).text(note.transcription || '— no transcription —');
-      doc.moveDown(0.5);
-
-      // Summary
-      doc.fontSize(14).text('Summary:', { underline: true });
-      doc.moveDown(0.25);
-      doc.fontSize(12).text(note.summary || '— no summary —');
-      doc.moveDown(0.5);
-
-      // Insights
-      if (note.insights && note.insights.length > 0) {
-        doc.fontSize(14).text('Insights:', { underline: true });
-        note.insights.forEach(ins => {
-          doc.fontSize(12).text(`• ${ins}`);
-        });
-        doc.moveDown(0.5);
-      }
-
-      // Images
-      if (fullImagePaths.length > 0) {
-        doc.addPage();
-        doc.fontSize(14).text('Attached Images:', { underline: true });
-        doc.moveDown(0.5);
-
-        const maxW = 250;
-        const maxH = 250;
-        let x = doc.page.margins.left;
-        let y = doc.y;
-
-        fullImagePaths.forEach((imgPath, idx) => {
-          try {
-            if (fs.existsSync(imgPath)) {
-              doc.image(imgPath, x, y, { fit: [maxW, maxH] });
-            }
-          } catch (e) {
-            console.warn(`Could not embed ${imgPath}:`, e);
-          }
-          x += maxW + 20;
-          if ((idx + 1) % 2 === 0) {
-            x = doc.page.margins.left;
-            y += maxH + 20;
-            if (y + maxH > doc.page.height - doc.page.margins.bottom) {
-              doc.addPage();
-              y = doc.page.margins.top;
-            }
-          }
-        });
-      }
-
-      doc.end();
-      writeStream.on('finish', () => {
-        const buf = fs.readFileSync(pdfPath);
-        const base64Pdf = buf.toString('base64');
-        resolve(base64Pdf);
-      });
-      writeStream.on('error', (err) => reject(err));
-    } catch (err) {
-      reject(err);
-    }
-  });
+// -------------- THE POST HANDLER --------------
+// Remove what multer stored for a request that won't become a note
+function discardFiles(req: ExtendedNextApiRequest) {
+  [...(req.files?.audio ?? []), ...(req.files?.images ?? [])].forEach((f) =>
+    fs.rmSync(f.path, { force: true })
+  );
 }
 
-// -------------- THE POST HANDLER --------------
+// Saves the files and a pending note, then hands processing to the job queue.
+// A note can be any mix of a recording, photos (with a `captions` field per
+// image, in order) and typed `text`.
 handler.post(async (req: ExtendedNextApiRequest, res) => {
   console.log('Upload request (prod? ' + isProd + ')');
-  const { projectId } = req.body;
+  const { projectId, idempotencyKey, capturedAt, text, captions } = req.body;
   if (!projectId || typeof projectId !== 'string') {
+    discardFiles(req);
     return res.status(400).json({ ok: false, error: 'Project ID is required' });
   }
 
   try {
     const project = getProject(projectId);
     if (!project) {
+      discardFiles(req);
       return res.status(404).json({ ok: false, error: 'Project not found' });
     }
 
     const audioFile = req.files?.audio?.[0];
     const imageFiles = req.files?.images || [];
-    if (!audioFile) {
-      return res.status(400).json({ ok: false, error: 'Audio file is required' });
-    }
-
-    if (!fs.existsSync(audioFile.path)) {
+    if (audioFile && !fs.existsSync(audioFile.path)) {
+      discardFiles(req);
       return res.status(500).json({ ok: false, error: 'Uploaded audio not found on disk' });
     }
 
-    // Transcribe (or fallback)
-    console.log('Starting transcription (dev? ' + (!isProd) + ')');
-    const transcriptionResult = await transcribeAudio(audioFile.path);
-    console.log('Transcription complete:', transcriptionResult);
-
-    // Build Note
-    const note = await createNote(
-      audioFile.path,
-      imageFiles.map(f => f.path),
-      transcriptionResult
+    const imageCaptions = parseCaptions(captions, imageFiles.length);
+    const saved = saveUploadedNote(
+      projectId,
+      audioFile && path.basename(audioFile.path),
+      imageFiles.map((f, index) => ({ name: path.basename(f.path), caption: imageCaptions[index] })),
+      parseUploadOptions({ idempotencyKey, capturedAt, text })
     );
-
-    // Add to project
-    const updated = addNoteToProject(projectId, note);
-    if (!updated) {
-      return res.status(500).json({ ok: false, error: 'Failed to attach note to project' });
+    if (!saved) {
+      // The project went to the trash while the files were arriving
+      discardFiles(req);
+      return res.status(404).json({ ok: false, error: 'Project not found' });
     }
-
-    // Generate PDF → base64
-    const fullImagePaths = imageFiles.map(f => path.resolve(f.path));
-    let pdfBase64 = '';
-    try {
-      pdfBase64 = await generatePdfReport(note, project.name, fullImagePaths);
-    } catch (pdfErr) {
-      console.error('PDF generation failed:', pdfErr);
+    if (saved.duplicate) {
+      // A retry of an upload we already have: drop this copy of the files
+      discardFiles(req);
+      return res.status(200).json({ ok: true, note: saved.note, jobId: saved.jobId });
     }
 
-    // Return the note + PDF (base64) in JSON
-    return res.status(200).json({
+    // Transcription, summary and PDF happen in the background; the client
+    // polls /api/jobs/[id] for progress
+    return res.status(202).json({
       ok: true,
-      note,
-      pdfBase64
+      note: saved.note,
+      jobId: saved.jobId
     });
   } catch (err) {
+    // Nothing was saved (the note is written in one transaction), so the
+    // files would only be orphaned
+    discardFiles(req);
+    if (err instanceof UploadError) {
+      return res.status(err.status).json({ ok: false, error: err.message });
+    }
     console.error('Handler error:', err);
+    if (err instanceof StorageError) {
+      return res.status(503).json({ ok: false, error: err.message });
+    }
     const message = err instanceof Error ? err.message : 'Unknown error';
     return res.status(500).json({ ok: false, error: message });
   }
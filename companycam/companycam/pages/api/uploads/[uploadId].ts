@@ -0,0 +1,41 @@
+// /pages/api/uploads/[uploadId].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { deleteUploadSession, getUploadSession, UploadError } from '../../../lib/uploads';
+import type { UploadSession } from '../../../types';
+
+type Data =
+  | { upload: UploadSession }
+  | { success: true }
+  | { error: string };
+
+// GET reports how much of each file has arrived; DELETE abandons the upload
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  const { uploadId } = req.query as { uploadId: string };
+
+  try {
+    if (req.method === 'GET') {
+      const upload = getUploadSession(uploadId);
+      if (!upload) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(200).json({ upload });
+    }
+
+    if (req.method === 'DELETE') {
+      if (!deleteUploadSession(uploadId)) {
+        return res.status(404).json({ error: 'Upload not found' });
+      }
+      return res.status(200).json({ success: true });
+    }
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error reading upload:', error);
+    return res.status(500).json({ error: 'Failed to read upload' });
+  }
+
+  res.setHeader('Allow', ['GET', 'DELETE']);
+  return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+}
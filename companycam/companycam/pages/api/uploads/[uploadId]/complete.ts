@@ -0,0 +1,32 @@
+// /pages/api/uploads/[uploadId]/complete.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { StorageError } from '../../../../lib/data';
+import { completeUploadSession, UploadError } from '../../../../lib/uploads';
+import type { UploadResponse } from '../../../../types';
+
+/**
+ * POST once every file has arrived: checks sizes and checksums, then creates
+ * the note and queues its processing, answering like POST /api/upload.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<UploadResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ ok: false, error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { uploadId } = req.query as { uploadId: string };
+
+  try {
+    const { note, jobId } = await completeUploadSession(uploadId);
+    return res.status(202).json({ ok: true, ...(note ? { note } : {}), jobId });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.status).json({ ok: false, error: error.message });
+    }
+    console.error('Error completing upload:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ ok: false, error: error.message });
+    }
+    return res.status(500).json({ ok: false, error: 'Failed to complete upload' });
+  }
+}
@@ -0,0 +1,76 @@
+// /pages/api/uploads/[uploadId]/files/[index].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { config as appConfig } from '../../../../../lib/config';
+import { StorageError } from '../../../../../lib/data';
+import { appendChunk, UploadError } from '../../../../../lib/uploads';
+
+type Data =
+  | { received: number }
+  | { error: string; received?: number };
+
+// Chunks arrive as raw bytes
+export const config = { api: { bodyParser: false } };
+
+function readBody(req: NextApiRequest, limit: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+    // Oversized bodies are read to the end but not kept, so the 413 gets through
+    req.on('data', (data: Buffer) => {
+      length += data.length;
+      if (length <= limit) chunks.push(data);
+    });
+    req.on('end', () => {
+      if (length > limit) reject(new UploadError(`Chunks must be at most ${limit} bytes`, 413));
+      else resolve(Buffer.concat(chunks));
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * PUT the next chunk of a file with an Upload-Offset header giving where it
+ * starts, and optionally Upload-Checksum: "sha256 <base64 digest>". A wrong
+ * offset is answered with 409 and the offset the server has got to.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', ['PUT']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { uploadId, index } = req.query as { uploadId: string; index: string };
+  const offset = Number(req.headers['upload-offset']);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return res.status(400).json({ error: 'Upload-Offset header is required' });
+  }
+  const checksumHeader = req.headers['upload-checksum'];
+  let checksum: string | undefined;
+  if (typeof checksumHeader === 'string') {
+    const [algorithm, digest] = checksumHeader.split(' ');
+    if (algorithm !== 'sha256' || !digest) {
+      return res.status(400).json({ error: 'Upload-Checksum must be "sha256 <base64 digest>"' });
+    }
+    checksum = digest;
+  }
+
+  try {
+    const chunk = await readBody(req, appConfig.uploads.chunkBytes);
+    const received = appendChunk(uploadId, Number(index), offset, chunk, checksum);
+    return res.status(200).json({ received });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      // A wrong offset comes back with where the client should carry on from
+      return res.status(error.status).json({
+        error: error.message,
+        ...(error.received !== undefined ? { received: error.received } : {}),
+      });
+    }
+    console.error('Error storing upload chunk:', error);
+    if (error instanceof StorageError) {
+      // E.g. timed out waiting for another request to this upload
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to store chunk' });
+  }
+}
@@ -0,0 +1,40 @@
+// /pages/api/uploads/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { StorageError } from '../../../lib/data';
+import { createUploadSession, parseUploadOptions, UploadError } from '../../../lib/uploads';
+import type { UploadSession } from '../../../types';
+
+type Data =
+  | { upload: UploadSession }
+  | { error: string };
+
+/**
+ * POST { projectId, files: [{ field, name, type, size, sha256?, caption? }],
+ * text?, idempotencyKey?, capturedAt? } starts a resumable upload. Send each file in chunks with
+ * PUT /api/uploads/[uploadId]/files/[index], then POST .../complete.
+ */
+export default function handler(req: NextApiRequest, res: NextApiResponse<Data>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { projectId, files, text, idempotencyKey, capturedAt } = req.body ?? {};
+  if (!projectId || typeof projectId !== 'string') {
+    return res.status(400).json({ error: 'Project ID is required' });
+  }
+
+  try {
+    const options = parseUploadOptions({ idempotencyKey, capturedAt, text });
+    return res.status(201).json({ upload: createUploadSession(projectId, files, options) });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('Error starting upload:', error);
+    if (error instanceof StorageError) {
+      return res.status(503).json({ error: error.message });
+    }
+    return res.status(500).json({ error: 'Failed to start upload' });
+  }
+}
@@ -1,7 +1,8 @@
 // /pages/index.tsx
 import { useState } from 'react';
 import { useRouter } from 'next/router';
-import { Plus, Mic, Camera, Sparkles, Search } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Mic, Camera, Sparkles, Search, Trash2 } from 'lucide-react';
 import ProjectCard from '../components/ProjectCard';
 import { getAllProjects, getGlobalStats } from '../lib/data';
 import type { Project } from '../types';
@@ -115,6 +116,14 @@ const Home: NextPage<HomeProps> = ({ projects: initialProjects, stats: initialSt
                 />
               </div>
 
+              <Link
+                href="/trash"
+                title="Trash"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Trash2 className="w-5 h-5" />
+              </Link>
+
               <button
                 onClick={() => setShowCreateModal(true)}
                 className="flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors duration-200 shadow-sm hover:shadow-md"
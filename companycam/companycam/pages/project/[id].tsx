@@ -1,6 +1,6 @@
 // /pages/project/[id].tsx
 
-import { useState } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Link from 'next/link';
 import {
@@ -13,18 +13,49 @@ import {
   Share2,
   Download,
   Trash2,
+  ListChecks,
 } from 'lucide-react';
 import NoteCard from '../../components/NoteCard';
-import { Project, Note, ViewMode, SortBy, FilterBy, Stats } from '../../types';
+import UserNameButton from '../../components/UserNameButton';
+import { matchesFilter } from '../../utils/notes';
+import { saveForOffline } from '../../utils/offline';
+import { actorHeaders } from '../../utils/actor';
+import {
+  Project,
+  Note,
+  ActionItem,
+  OpenActionItem,
+  NoteUpdate,
+  NoteRevision,
+  ProcessingJob,
+  SummarizerKind,
+  ViewMode,
+  SortBy,
+  FilterBy,
+  ReportTemplateSummary,
+  Stats,
+} from '../../types';
 import { GetServerSideProps, NextPage } from 'next';
 import { getProject, getProjectStats } from '../../lib/data';
+import {
+  DEFAULT_REPORT_TEMPLATE,
+  loadReportTemplates,
+  summarizeTemplate,
+} from '../../lib/processing/reportTemplates';
 
 interface Props {
   project: Project;
   stats: Stats;
+  reportTemplates: ReportTemplateSummary[];
 }
 
-const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialStats }) => {
+const JOB_POLL_MS = 1000;
+
+const ProjectPage: NextPage<Props> = ({
+  project: initialProject,
+  stats: initialStats,
+  reportTemplates,
+}) => {
   const router = useRouter();
   const { id } = router.query as { id: string };
 
@@ -39,8 +70,42 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
   const [showEditModal, setShowEditModal] = useState(false);
   const [editName, setEditName] = useState(project.name);
   const [editDescription, setEditDescription] = useState(project.description || '');
+  const [editSummarizer, setEditSummarizer] = useState<SummarizerKind | ''>(
+    project.settings?.summarizer ?? ''
+  );
+  const [editRedactReports, setEditRedactReports] = useState(!!project.settings?.redactReports);
+  const [editRedactNames, setEditRedactNames] = useState(
+    (project.settings?.redactNames ?? []).join('\n')
+  );
+  const [editLanguage, setEditLanguage] = useState(project.settings?.language ?? '');
+  const [editVocabulary, setEditVocabulary] = useState(
+    (project.settings?.vocabulary ?? []).join(', ')
+  );
+  const [editReplacements, setEditReplacements] = useState(
+    (project.settings?.replacements ?? []).map((r) => `${r.from} => ${r.to}`).join('\n')
+  );
+  const [editReportTemplate, setEditReportTemplate] = useState(
+    project.settings?.reportTemplate ?? 'default'
+  );
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const [showReportModal, setShowReportModal] = useState(false);
+  const [reportFrom, setReportFrom] = useState('');
+  const [reportTo, setReportTo] = useState('');
+  const [reportFilter, setReportFilter] = useState<FilterBy>('all');
   const [isEditing, setIsEditing] = useState(false);
 
+  // Keep this project's photos and recordings for viewing offline
+  useEffect(() => {
+    saveForOffline(
+      project.notes.flatMap((n) =>
+        [n.audio, ...(n.images ?? []), ...(n.attachments ?? []).map((a) => a.file)]
+          .filter((f): f is string => !!f)
+          .map((f) => `/uploads/${f}`)
+      )
+    );
+  }, [project.notes]);
+
   // Filter + sort notes client‐side - moved this right after state declarations
   const filteredNotes: Note[] = (project.notes || [])
     .filter((note) => {
@@ -50,22 +115,7 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
           note.transcription?.toLowerCase().includes(searchTerm.toLowerCase()) ||
           note.text?.toLowerCase().includes(searchTerm.toLowerCase()));
 
-      let typeMatch = true;
-      switch (selectedFilter) {
-        case 'audio':
-          typeMatch = !!note.audio;
-          break;
-        case 'images':
-          typeMatch = !!(note.images && note.images.length > 0);
-          break;
-        case 'transcribed':
-          typeMatch = !!note.transcription;
-          break;
-        default:
-          typeMatch = true;
-      }
-
-      return searchMatch && typeMatch;
+      return searchMatch && matchesFilter(note, selectedFilter);
     })
     .sort((a, b) => {
       switch (sortBy) {
@@ -105,7 +155,17 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
 
   const handleEditProject = async () => {
     if (!editName.trim()) return;
+
+    // One "heard => meant" pair per line
+    const replacementLines = editReplacements.split('\n').filter((line) => line.trim());
+    const badLine = replacementLines.find((line) => !/^.*\S.*=>/.test(line));
+    if (badLine) {
+      setEditError(`Write replacements as "heard => meant", not "${badLine.trim()}"`);
+      return;
+    }
+
     setIsEditing(true);
+    setEditError(null);
     try {
       const resp = await fetch(`/api/project/${project.id}`, {
         method: 'PUT',
@@ -113,13 +173,30 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
         body: JSON.stringify({
           name: editName.trim(),
           description: editDescription.trim() || undefined,
+          settings: {
+            ...project.settings,
+            summarizer: editSummarizer || undefined,
+            redactReports: editRedactReports,
+            redactNames: editRedactNames.split('\n').map((name) => name.trim()).filter(Boolean),
+            language: editLanguage.trim().toLowerCase() || undefined,
+            vocabulary: editVocabulary.split(/[,\n]/).map((term) => term.trim()).filter(Boolean),
+            replacements: replacementLines.map((line) => {
+              const [from, ...to] = line.split('=>');
+              return { from: from.trim(), to: to.join('=>').trim() };
+            }),
+            reportTemplate: editReportTemplate,
+          },
         }),
       });
-      if (!resp.ok) throw new Error('Failed to update');
+      if (!resp.ok) {
+        const data = await resp.json();
+        throw new Error(data.error || 'Failed to update project');
+      }
       await refreshProject();
       setShowEditModal(false);
     } catch (e) {
       console.error(e);
+      setEditError(e instanceof Error ? e.message : 'Failed to update project');
     } finally {
       setIsEditing(false);
     }
@@ -127,13 +204,14 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
 
   const handleDeleteProject = async () => {
     const confirmed = window.confirm(
-      'Are you sure you want to delete this project? This cannot be undone.'
+      'Move this project to the trash? You can restore it from the trash until it is purged.'
     );
     if (!confirmed) return;
 
     try {
       const resp = await fetch(`/api/project/${project.id}`, {
         method: 'DELETE',
+        headers: actorHeaders(),
       });
       if (!resp.ok) throw new Error('Failed to delete');
       router.push('/');
@@ -142,6 +220,150 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
     }
   };
 
+  const handleDeleteNote = async (note: Note) => {
+    const confirmed = window.confirm('Move this note to the trash?');
+    if (!confirmed) return;
+
+    try {
+      const resp = await fetch(`/api/project/${project.id}/note/${note.id}`, {
+        method: 'DELETE',
+        headers: actorHeaders(),
+      });
+      if (!resp.ok) throw new Error('Failed to delete note');
+      await refreshProject();
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
+  const replaceNote = (updated: Note) => {
+    setProject((prev) => ({
+      ...prev,
+      notes: prev.notes.map((n) => (n.id === updated.id ? updated : n)),
+    }));
+  };
+
+  // Errors propagate so the card's editor can show them
+  const handleUpdateNote = async (note: Note, updates: NoteUpdate) => {
+    const resp = await fetch(`/api/project/${project.id}/note/${note.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json', ...actorHeaders() },
+      body: JSON.stringify(updates),
+    });
+    const data = await resp.json();
+    if (!resp.ok || !data.success) {
+      throw new Error(data.error || 'Failed to update note');
+    }
+
+    replaceNote(data.note);
+  };
+
+  // Stable identity so NoteCard's history panel only refetches when the note changes
+  const handleLoadRevisions = useCallback(
+    async (note: Note): Promise<NoteRevision[]> => {
+      const resp = await fetch(`/api/project/${project.id}/note/${note.id}/revisions`);
+      const data = await resp.json();
+      if (!resp.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load history');
+      }
+      return data.revisions;
+    },
+    [project.id]
+  );
+
+  const handleRestoreRevision = async (note: Note, revision: NoteRevision) => {
+    const resp = await fetch(
+      `/api/project/${project.id}/note/${note.id}/revisions/${revision.id}/restore`,
+      { method: 'POST', headers: actorHeaders() }
+    );
+    const data = await resp.json();
+    if (!resp.ok || !data.success) {
+      throw new Error(data.error || 'Failed to restore revision');
+    }
+    replaceNote(data.note);
+  };
+
+  // Queue the stored audio again, then follow the job so the card updates
+  // without a reload. Errors propagate so the card can show them.
+  const handleRetryTranscription = async (note: Note) => {
+    const resp = await fetch(`/api/project/${project.id}/note/${note.id}/transcribe`, {
+      method: 'POST',
+      headers: actorHeaders(),
+    });
+    const data = await resp.json();
+    if (!resp.ok || !data.success) {
+      throw new Error(data.error || 'Failed to retry transcription');
+    }
+    replaceNote(data.note);
+
+    void (async () => {
+      try {
+        for (;;) {
+          await new Promise((resolve) => setTimeout(resolve, JOB_POLL_MS));
+          const jobResp = await fetch(`/api/jobs/${data.jobId}`);
+          if (!jobResp.ok) break;
+          const { job } = (await jobResp.json()) as { job: ProcessingJob };
+          if (job.status === 'done' || job.status === 'failed') break;
+        }
+        await refreshProject();
+      } catch (e) {
+        console.error(e);
+      }
+    })();
+  };
+
+  const handleResummarize = async (note: Note) => {
+    const resp = await fetch(`/api/project/${project.id}/note/${note.id}/summarize`, {
+      method: 'POST',
+      headers: actorHeaders(),
+    });
+    const data = await resp.json();
+    if (!resp.ok || !data.success) {
+      throw new Error(data.error || 'Failed to summarize note');
+    }
+    replaceNote(data.note);
+  };
+
+  const handleToggleActionItem = async (note: Note, item: ActionItem, done: boolean) => {
+    const resp = await fetch(
+      `/api/project/${project.id}/note/${note.id}/action-items/${item.id}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...actorHeaders() },
+        body: JSON.stringify({ done }),
+      }
+    );
+    const data = await resp.json();
+    if (!resp.ok || !data.success) {
+      throw new Error(data.error || 'Failed to update action item');
+    }
+    replaceNote(data.note);
+  };
+
+  const handleAttach = async (note: Note, files: File[]) => {
+    const form = new FormData();
+    files.forEach((file) => form.append('files', file, file.name));
+    const resp = await fetch(`/api/project/${project.id}/note/${note.id}/attachments`, {
+      method: 'POST',
+      headers: actorHeaders(),
+      body: form,
+    });
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok || !data.success) {
+      throw new Error(data.error || 'Failed to attach files');
+    }
+    replaceNote(data.note);
+  };
+
+  // Everything still to do across the project, newest note first
+  const openActionItems: OpenActionItem[] = [...project.notes]
+    .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+    .flatMap((note) =>
+      (note.actionItems ?? [])
+        .filter((item) => !item.done)
+        .map((item) => ({ noteId: note.id, noteTimestamp: note.timestamp, item }))
+    );
+
   const handleNoteAction = (note: Note, action: 'expand' | 'share' | 'download') => {
     // Stub for future functionality
     console.log(`${action} note:`, note.id);
@@ -170,6 +392,8 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
             </div>
 
             <div className="flex items-center space-x-3">
+              <UserNameButton />
+
               <button
                 onClick={() => setShowEditModal(true)}
                 className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
@@ -181,7 +405,14 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
                 <Share2 className="w-5 h-5" />
               </button>
 
-              <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
+              <button
+                onClick={() => {
+                  setReportFilter(selectedFilter);
+                  setShowReportModal(true);
+                }}
+                title="Download project report"
+                className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+              >
                 <Download className="w-5 h-5" />
               </button>
 
@@ -220,6 +451,54 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
           </div>
         )}
 
+        {/* Open Action Items */}
+        {openActionItems.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-8">
+            <div className="flex items-center space-x-2 mb-4">
+              <ListChecks className="w-5 h-5 text-amber-600" />
+              <h2 className="text-lg font-semibold text-gray-900">
+                Open action items ({openActionItems.length})
+              </h2>
+            </div>
+            <ul className="divide-y divide-gray-100">
+              {openActionItems.map(({ noteId, noteTimestamp, item }) => {
+                const note = project.notes.find((n) => n.id === noteId);
+                return (
+                  <li key={item.id} className="flex items-start space-x-3 py-2">
+                    <input
+                      type="checkbox"
+                      checked={false}
+                      onChange={() =>
+                        note &&
+                        handleToggleActionItem(note, item, true).catch((e) => console.error(e))
+                      }
+                      className="mt-1 rounded border-gray-300"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-700">{item.text}</p>
+                      <div className="flex flex-wrap items-center gap-1 mt-0.5 text-xs">
+                        {item.assignee && (
+                          <span className="px-2 py-0.5 bg-amber-50 text-amber-700 rounded-full">
+                            {item.assignee}
+                          </span>
+                        )}
+                        {item.due && (
+                          <span className="px-2 py-0.5 bg-red-50 text-red-700 rounded-full">
+                            {item.due}
+                          </span>
+                        )}
+                        <span className="text-gray-400">
+                          From note of {new Date(noteTimestamp).toLocaleDateString('en-US')}
+                        </span>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
         {/* Controls */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-8">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between space-y-4 sm:space-y-0">
@@ -246,6 +525,7 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
                 <option value="audio">Audio Only</option>
                 <option value="images">With Images</option>
                 <option value="transcribed">Transcribed</option>
+                <option value="safety">Safety Flagged</option>
               </select>
 
               {/* Sort */}
@@ -295,9 +575,18 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
               <NoteCard
                 key={note.id}
                 note={note}
+                projectId={project.id}
                 onExpand={(n: Note) => handleNoteAction(n, 'expand')}
                 onShare={(n: Note) => handleNoteAction(n, 'share')}
                 onDownload={(n: Note) => handleNoteAction(n, 'download')}
+                onDelete={handleDeleteNote}
+                onUpdate={handleUpdateNote}
+                onLoadRevisions={handleLoadRevisions}
+                onRestoreRevision={handleRestoreRevision}
+                onRetryTranscription={handleRetryTranscription}
+                onResummarize={handleResummarize}
+                onToggleActionItem={handleToggleActionItem}
+                onAttach={handleAttach}
               />
             ))}
           </div>
@@ -331,10 +620,82 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
         )}
       </div>
 
+      {/* Project Report */}
+      {showReportModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
+            <h3 className="text-xl font-bold text-gray-900 mb-4">Project Report</h3>
+            <p className="text-sm text-gray-500 mb-4">
+              One PDF with a cover page, contents, and every matching note with its photos.
+            </p>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                  <input
+                    type="date"
+                    value={reportFrom}
+                    onChange={(e) => setReportFrom(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+                  <input
+                    type="date"
+                    value={reportTo}
+                    onChange={(e) => setReportTo(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+                <select
+                  value={reportFilter}
+                  onChange={(e) => setReportFilter(e.target.value as FilterBy)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="all">All Notes</option>
+                  <option value="audio">Audio Only</option>
+                  <option value="images">With Images</option>
+                  <option value="transcribed">Transcribed</option>
+                  <option value="safety">Safety Flagged</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3 mt-6">
+              <a
+                href={`/api/project/${project.id}/report?${new URLSearchParams({
+                  ...(reportFrom ? { from: reportFrom } : {}),
+                  ...(reportTo ? { to: reportTo } : {}),
+                  filter: reportFilter,
+                }).toString()}`}
+                download
+                onClick={() => setShowReportModal(false)}
+                className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                <span>Download PDF</span>
+              </a>
+              <button
+                onClick={() => setShowReportModal(false)}
+                className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Edit Project Modal */}
       {showEditModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6">
+          <div className="bg-white rounded-2xl shadow-xl max-w-md w-full p-6 max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold text-gray-900 mb-4">Edit Project</h3>
 
             <div className="space-y-4">
@@ -361,6 +722,106 @@ const ProjectPage: NextPage<Props> = ({ project: initialProject, stats: initialS
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Summaries
+                </label>
+                <select
+                  value={editSummarizer}
+                  onChange={(e) => setEditSummarizer(e.target.value as SummarizerKind | '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Server default</option>
+                  <option value="extractive">Extractive (local, no network)</option>
+                  <option value="llm">LLM endpoint</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editRedactReports}
+                    onChange={(e) => setEditRedactReports(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  <span>Redact personal details in reports</span>
+                </label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Phone numbers, emails, street addresses and the names below are replaced in PDF
+                  reports.
+                </p>
+                <textarea
+                  value={editRedactNames}
+                  onChange={(e) => setEditRedactNames(e.target.value)}
+                  rows={3}
+                  placeholder="Names to redact, one per line"
+                  className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Transcription
+                </label>
+                <input
+                  type="text"
+                  value={editLanguage}
+                  onChange={(e) => setEditLanguage(e.target.value)}
+                  placeholder="Language code, e.g. en (blank to auto-detect)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <textarea
+                  value={editVocabulary}
+                  onChange={(e) => setEditVocabulary(e.target.value)}
+                  rows={2}
+                  placeholder="Vocabulary, comma-separated: ABS, rebar, NAP, MPT, COID"
+                  className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <textarea
+                  value={editReplacements}
+                  onChange={(e) => setEditReplacements(e.target.value)}
+                  rows={3}
+                  placeholder={'Fixes, one per line:\nsub great => sub-grade'}
+                  className="w-full mt-2 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Applies to recordings transcribed from now on.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Report template
+                </label>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={editReportTemplate}
+                    onChange={(e) => setEditReportTemplate(e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {reportTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                  <a
+                    href={`/api/report-templates/${editReportTemplate}/preview?projectId=${project.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg transition-colors"
+                  >
+                    Preview
+                  </a>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Used for PDFs rendered from now on and for project reports.
+                </p>
+              </div>
+
+              {editError && <p className="text-sm text-red-600">{editError}</p>}
             </div>
 
             <div className="flex items-center space-x-3 mt-6">
@@ -414,10 +875,19 @@ export const getServerSideProps: GetServerSideProps = async (context) => {
       totalDuration: 0,
     };
 
+    // A broken template file shouldn't take the project page down with it
+    let reportTemplates = [summarizeTemplate(DEFAULT_REPORT_TEMPLATE)];
+    try {
+      reportTemplates = loadReportTemplates().map(summarizeTemplate);
+    } catch (error) {
+      console.error('Error loading report templates:', error);
+    }
+
     return {
       props: {
         project,
         stats,
+        reportTemplates,
       },
     };
   } catch (error) {
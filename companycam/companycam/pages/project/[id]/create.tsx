@@ -1,6 +1,6 @@
 // /pages/project/[id]/create.tsx
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/router';
 import {
   ArrowLeft,
@@ -13,9 +13,24 @@ import {
   Camera,
   Mic,
   Sparkles,
+  RefreshCw,
+  CloudOff,
+  PenLine,
 } from 'lucide-react';
 import CameraRecorder from '@/components/CameraRecorder';
-import { Project, RecordingStatus } from '../../../types'; // Adjusted path based on directory structure
+import NoteComposer, { ComposedPhoto } from '@/components/NoteComposer';
+import { isRetryableUploadError, UploadFile } from '@/utils/upload';
+import {
+  addToOutbox,
+  createOutboxEntry,
+  listOutbox,
+  OUTBOX_CHANGED,
+  OutboxEntry,
+  removeFromOutbox,
+  requestBackgroundSync,
+  sendOutboxEntry,
+} from '@/utils/outbox';
+import { Project, RecordingStatus, ProcessingJob, JobProgressEvent } from '../../../types'; // Adjusted path based on directory structure
 
 import { GetServerSideProps, NextPage } from 'next';
 import { getProject } from '@/lib/data'; // Adjusted path to use absolute imports
@@ -24,6 +39,8 @@ interface Props {
   project: Project;
 }
 
+const JOB_POLL_MS = 1000;
+
 const CreateNote: NextPage<Props> = ({ project }) => {
   const router = useRouter();
   const { id } = router.query as { id: string };
@@ -32,85 +49,188 @@ const CreateNote: NextPage<Props> = ({ project }) => {
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
   const [processingStep, setProcessingStep] = useState('');
-
-  // Simulate progress updates
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [captureMode, setCaptureMode] = useState<'record' | 'write'>('record');
+  // Kept after a failed upload so "Resume upload" carries on where it stopped;
+  // `saved` once it's also in the outbox, which sends it if we don't
+  const pendingUpload = useRef<{ entry: OutboxEntry; saved: boolean } | null>(null);
+
+  // Follow the background job until it finishes or fails: live over SSE,
+  // falling back to polling if the stream can't be opened or drops
   useEffect(() => {
-    if (status === 'uploading' || status === 'processing') {
-      const interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev < 90) return prev + 10;
-          return prev;
-        });
-      }, 500);
-      return () => clearInterval(interval);
+    if (!jobId) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    let source: EventSource | null = null;
+
+    const fail = (e: unknown) => {
+      if (cancelled) return;
+      cancelled = true;
+      source?.close();
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'An unknown error occurred');
+      setStatus('error');
+      setProgress(0);
+      setJobId(null);
+    };
+
+    const apply = (update: Pick<ProcessingJob, 'status' | 'progress' | 'message' | 'error'>) => {
+      if (cancelled) return;
+      if (update.status === 'done') {
+        cancelled = true;
+        source?.close();
+        setProgress(100);
+        setStatus('success');
+        setJobId(null);
+        // Redirect back to project page after a short delay
+        setTimeout(() => {
+          router.push(`/project/${project.id}`);
+        }, 2000);
+        return;
+      }
+      if (update.status === 'failed') {
+        return fail(new Error(update.error || 'Processing failed'));
+      }
+      setProgress(update.progress);
+      setProcessingStep(update.message || 'Waiting to start processing...');
+    };
+
+    const poll = async () => {
+      try {
+        const resp = await fetch(`/api/jobs/${jobId}`);
+        if (!resp.ok) throw new Error('Lost track of processing job');
+        const { job } = (await resp.json()) as { job: ProcessingJob };
+        apply(job);
+        if (!cancelled) timer = setTimeout(poll, JOB_POLL_MS);
+      } catch (e) {
+        fail(e);
+      }
+    };
+
+    if (typeof EventSource === 'undefined') {
+      poll();
+    } else {
+      source = new EventSource(`/api/jobs/${jobId}/events`);
+      source.onmessage = (msg) => apply(JSON.parse(msg.data) as JobProgressEvent);
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        if (!cancelled) poll();
+      };
     }
+
+    return () => {
+      cancelled = true;
+      source?.close();
+      clearTimeout(timer);
+    };
+  }, [jobId, project.id, router]);
+
+  // A queued recording may be sent from elsewhere (the pending uploads
+  // indicator, or the service worker): once it's left the outbox, it's in
+  useEffect(() => {
+    if (status !== 'queued') return;
+    const check = async () => {
+      const id = pendingUpload.current?.entry.id;
+      const entries = await listOutbox().catch(() => null);
+      if (!id || !entries || entries.some((e) => e.id === id)) return;
+      pendingUpload.current = null;
+      setProgress(100);
+      setStatus('success');
+    };
+    window.addEventListener(OUTBOX_CHANGED, check);
+    return () => window.removeEventListener(OUTBOX_CHANGED, check);
   }, [status]);
 
-  const handleFinish = async ({
-    audio,
-    images,
-  }: {
-    audio: File;
-    images: File[];
-  }) => {
+  // Sends the files in chunks. If the connection is gone, a recording that
+  // made it into the outbox waits there and goes up once it's back.
+  const startUpload = async () => {
+    const pending = pendingUpload.current;
+    if (!pending) return;
     setStatus('uploading');
     setProgress(0);
     setError(null);
 
     try {
-      const formData = new FormData();
-      formData.append('projectId', project.id);
-      formData.append('audio', audio);
-      images.forEach((img) => formData.append('images', img));
-
       setProcessingStep('Uploading files...');
-      const uploadResponse = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
+      const result = await sendOutboxEntry(pending.entry, {
+        onProgress: (sent, total) => {
+          const pct = total ? Math.round((sent / total) * 100) : 100;
+          setProgress(pct);
+          setProcessingStep(`Uploading files... ${pct}%`);
+        },
+        onConnectionChange: (waiting) => {
+          setProcessingStep(
+            waiting
+              ? 'Connection lost. The upload will resume when you are back online...'
+              : 'Uploading files...'
+          );
+        },
       });
+      pendingUpload.current = null;
 
-      if (!uploadResponse.ok) {
-        const errData = await uploadResponse.json();
-        throw new Error(errData.error || 'Upload failed');
+      // Already sent and processed earlier, e.g. by the service worker
+      if (!result.jobId) {
+        setProgress(100);
+        setStatus('success');
+        return;
       }
 
+      // Files are saved; the server now processes them in the background
       setStatus('processing');
-      setProcessingStep('Transcribing audio...');
-      setProgress(30);
-
-      // Simulate delays
-      await new Promise((r) => setTimeout(r, 2000));
-      setProcessingStep('Analyzing content with AI...');
-      setProgress(60);
-
-      await new Promise((r) => setTimeout(r, 2000));
-      setProcessingStep('Generating summary and insights...');
-      setProgress(80);
-
-      await new Promise((r) => setTimeout(r, 1500));
-      setProcessingStep('Finalizing your note...');
-      setProgress(95);
-
-      const result = await uploadResponse.json();
-      if (!result.ok) {
-        throw new Error(result.error || 'Processing failed');
-      }
-
-      setProgress(100);
-      setStatus('success');
-
-      // Redirect back to project page after a short delay
-      setTimeout(() => {
-        router.push(`/project/${project.id}`);
-      }, 2000);
+      setProcessingStep('Waiting to start processing...');
+      setProgress(5);
+      setJobId(result.jobId);
     } catch (e) {
       console.error(e);
+      if (pending.saved && isRetryableUploadError(e)) {
+        setStatus('queued');
+        setProgress(0);
+        requestBackgroundSync();
+        return;
+      }
       setError(e instanceof Error ? e.message : 'An unknown error occurred');
       setStatus('error');
       setProgress(0);
     }
   };
 
+  // Save the note on the device first, so losing the connection (or
+  // closing the tab) can't lose it
+  const saveNote = async (files: UploadFile[], text?: string) => {
+    const entry = createOutboxEntry(project.id, files, text);
+    let saved = true;
+    try {
+      await addToOutbox(entry);
+    } catch (e) {
+      // Private browsing or a full disk: upload straight from memory instead
+      console.warn('Could not save recording for offline upload:', e);
+      saved = false;
+    }
+    pendingUpload.current = { entry, saved };
+    return startUpload();
+  };
+
+  const handleFinish = ({ audio, images }: { audio: File; images: File[] }) =>
+    saveNote([
+      { field: 'audio', file: audio },
+      ...images.map((file): UploadFile => ({ field: 'images', file })),
+    ]);
+
+  const handleCompose = ({ text, photos }: { text: string; photos: ComposedPhoto[] }) =>
+    saveNote(
+      photos.map(({ file, caption }): UploadFile => ({ field: 'images', file, caption })),
+      text
+    );
+
+  const resetRecording = () => {
+    pendingUpload.current = null;
+    setStatus('idle');
+    setProgress(0);
+    setError(null);
+  };
+
   const getStatusConfig = () => {
     switch (status) {
       case 'idle':
@@ -128,6 +248,13 @@ const CreateNote: NextPage<Props> = ({ project }) => {
           subtitle: processingStep,
           color: 'text-blue-600',
         };
+      case 'queued':
+        return {
+          icon: <CloudOff className="w-8 h-8 text-amber-600" />,
+          title: 'Saved Offline',
+          subtitle: 'Will upload automatically when you are back online',
+          color: 'text-amber-600',
+        };
       case 'processing':
         return {
           icon: <Brain className="w-8 h-8 text-purple-600 animate-pulse" />,
@@ -202,7 +329,35 @@ const CreateNote: NextPage<Props> = ({ project }) => {
               </p>
             </div>
 
-            <CameraRecorder onFinish={handleFinish} />
+            <div className="flex justify-center mb-6">
+              <div className="inline-flex bg-gray-100 rounded-lg p-1">
+                {(
+                  [
+                    ['record', Mic, 'Record'],
+                    ['write', PenLine, 'Write'],
+                  ] as const
+                ).map(([mode, Icon, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setCaptureMode(mode)}
+                    className={`flex items-center space-x-2 px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                      captureMode === mode
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" />
+                    <span>{label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {captureMode === 'record' ? (
+              <CameraRecorder onFinish={handleFinish} />
+            ) : (
+              <NoteComposer onSubmit={handleCompose} />
+            )}
 
             <div className="mt-8 grid md:grid-cols-2 gap-6">
               <div className="bg-gradient-to-br from-blue-50 to-blue-100 border border-blue-200 rounded-xl p-6">
@@ -308,11 +463,7 @@ const CreateNote: NextPage<Props> = ({ project }) => {
                   View Project
                 </button>
                 <button
-                  onClick={() => {
-                    setStatus('idle');
-                    setProgress(0);
-                    setError(null);
-                  }}
+                  onClick={resetRecording}
                   className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-3 rounded-lg transition-colors font-medium"
                 >
                   Create Another
@@ -322,6 +473,44 @@ const CreateNote: NextPage<Props> = ({ project }) => {
           </div>
         )}
 
+        {status === 'queued' && (
+          <div className="max-w-md mx-auto text-center">
+            <div className="bg-white rounded-2xl shadow-xl border border-amber-200 p-8">
+              <div className="w-24 h-24 bg-amber-100 rounded-full flex items-center justify-center mx-auto mb-6">
+                <CloudOff className="w-12 h-12 text-amber-600" />
+              </div>
+
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">Saved on this device</h3>
+              <p className="text-gray-600 mb-6">
+                We couldn't reach the server. Your recording is safe and will be added to{' '}
+                {project.name} automatically once you're back online.
+              </p>
+
+              <div className="flex space-x-4">
+                <button
+                  onClick={startUpload}
+                  className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg transition-colors font-medium"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  <span>Retry Now</span>
+                </button>
+                <button
+                  onClick={resetRecording}
+                  className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-3 rounded-lg transition-colors font-medium"
+                >
+                  Record Another
+                </button>
+                <button
+                  onClick={() => router.push(`/project/${project.id}`)}
+                  className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-3 rounded-lg transition-colors font-medium"
+                >
+                  Go Back
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {status === 'error' && (
           <div className="max-w-md mx-auto text-center">
             <div className="bg-white rounded-2xl shadow-xl border border-red-200 p-8">
@@ -335,13 +524,30 @@ const CreateNote: NextPage<Props> = ({ project }) => {
               </div>
 
               <div className="flex space-x-4">
+                {pendingUpload.current && (
+                  <button
+                    onClick={startUpload}
+                    className="flex-1 flex items-center justify-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg transition-colors font-medium"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    <span>Resume Upload</span>
+                  </button>
+                )}
                 <button
                   onClick={() => {
-                    setStatus('idle');
-                    setProgress(0);
-                    setError(null);
+                    // Starting over: the server can drop what it has so far
+                    const abandoned = pendingUpload.current?.entry;
+                    if (abandoned?.uploadId) {
+                      fetch(`/api/uploads/${abandoned.uploadId}`, { method: 'DELETE' }).catch(() => {});
+                    }
+                    if (abandoned) removeFromOutbox(abandoned.id).catch(() => {});
+                    resetRecording();
                   }}
-                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white px-4 py-3 rounded-lg transition-colors font-medium"
+                  className={`flex-1 px-4 py-3 rounded-lg transition-colors font-medium ${
+                    pendingUpload.current
+                      ? 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                      : 'bg-blue-600 hover:bg-blue-700 text-white'
+                  }`}
                 >
                   Try Again
                 </button>
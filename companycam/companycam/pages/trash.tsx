@@ -0,0 +1,193 @@
+// /pages/trash.tsx
+
+import { useState } from 'react';
+import { useRouter } from 'next/router';
+import { ArrowLeft, Trash2, RotateCcw, FolderOpen, FileText } from 'lucide-react';
+import { GetServerSideProps, NextPage } from 'next';
+import { getTrash } from '../lib/data';
+import { config } from '../lib/config';
+import { TrashContents, TrashedNote, Project } from '../types';
+
+type Props = TrashContents;
+
+const formatDeleted = (deletedAt?: string, deletedBy?: string) => {
+  if (!deletedAt) return '';
+  const when = new Date(deletedAt).toLocaleString('en-US');
+  return deletedBy ? `Deleted ${when} by ${deletedBy}` : `Deleted ${when}`;
+};
+
+const TrashPage: NextPage<Props> = ({
+  projects: initialProjects,
+  notes: initialNotes,
+  retentionDays,
+}) => {
+  const router = useRouter();
+
+  const [projects, setProjects] = useState<Project[]>(initialProjects);
+  const [notes, setNotes] = useState<TrashedNote[]>(initialNotes);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestoreProject = async (project: Project) => {
+    setBusyId(project.id);
+    setError(null);
+    try {
+      const resp = await fetch(`/api/project/${project.id}/restore`, { method: 'POST' });
+      if (!resp.ok) {
+        const data = await resp.json();
+        throw new Error(data.error || 'Failed to restore project');
+      }
+      setProjects((prev) => prev.filter((p) => p.id !== project.id));
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to restore project');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestoreNote = async ({ projectId, note }: TrashedNote) => {
+    setBusyId(note.id);
+    setError(null);
+    try {
+      const resp = await fetch(`/api/project/${projectId}/note/${note.id}/restore`, {
+        method: 'POST',
+      });
+      if (!resp.ok) {
+        const data = await resp.json();
+        throw new Error(data.error || 'Failed to restore note');
+      }
+      setNotes((prev) => prev.filter((n) => n.note.id !== note.id));
+    } catch (e) {
+      console.error(e);
+      setError(e instanceof Error ? e.message : 'Failed to restore note');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const isEmpty = projects.length === 0 && notes.length === 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 sticky top-0 z-10">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-16 space-x-4">
+            <button
+              onClick={() => router.push('/')}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">Trash</h1>
+              <p className="text-sm text-gray-500">
+                Items are permanently deleted, with their media, after {retentionDays} day
+                {retentionDays !== 1 ? 's' : ''}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        )}
+
+        {isEmpty && (
+          <div className="text-center py-16">
+            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Trash2 className="w-12 h-12 text-gray-400" />
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Trash is empty</h3>
+            <p className="text-gray-500">Deleted projects and notes will show up here.</p>
+          </div>
+        )}
+
+        {projects.length > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Projects</h2>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+              {projects.map((project) => (
+                <div key={project.id} className="flex items-center justify-between p-4">
+                  <div className="flex items-center space-x-3 min-w-0">
+                    <FolderOpen className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 truncate">{project.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {project.notes.length} note{project.notes.length !== 1 ? 's' : ''} •{' '}
+                        {formatDeleted(project.deletedAt, project.deletedBy)}
+                      </p>
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRestoreProject(project)}
+                    disabled={busyId === project.id}
+                    className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    <span>Restore</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {notes.length > 0 && (
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Notes</h2>
+            <div className="bg-white rounded-xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+              {notes.map((item) => {
+                const text =
+                  item.note.summary ||
+                  item.note.transcription ||
+                  item.note.text ||
+                  (item.note.audio ? 'Voice note' : 'Photo note');
+                return (
+                  <div key={item.note.id} className="flex items-center justify-between p-4">
+                    <div className="flex items-center space-x-3 min-w-0">
+                      <FileText className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-gray-900 truncate">{text}</p>
+                        <p className="text-xs text-gray-500">
+                          {item.projectName} •{' '}
+                          {formatDeleted(item.note.deletedAt, item.note.deletedBy)}
+                        </p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRestoreNote(item)}
+                      disabled={busyId === item.note.id}
+                      className="flex items-center space-x-2 px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 rounded-lg transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore</span>
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const getServerSideProps: GetServerSideProps<Props> = async () => {
+  try {
+    return { props: getTrash(config.trash.retentionDays) };
+  } catch (error) {
+    console.error('Error in getServerSideProps:', error);
+    return {
+      props: { projects: [], notes: [], retentionDays: config.trash.retentionDays },
+    };
+  }
+};
+
+export default TrashPage;
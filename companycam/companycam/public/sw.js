@@ -0,0 +1,381 @@
+// /public/sw.js
+// Keeps the app readable offline: the build's static files, the pages and
+// project list most recently viewed, and their photos and audio. Also sends
+// recordings saved offline (see utils/outbox.ts) once the connection is back,
+// even if the app has been closed in the meantime.
+
+// Bump to drop every cache from an older version of this file
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `static-${CACHE_VERSION}`;
+const PAGES_CACHE = `pages-${CACHE_VERSION}`;
+const MEDIA_CACHE = `media-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, STATIC_CACHE, PAGES_CACHE, MEDIA_CACHE];
+
+const SHELL_URLS = [
+  '/offline.html',
+  '/site.webmanifest',
+  '/icon.svg',
+  '/android-chrome-192x192.png',
+  '/android-chrome-512x512.png',
+];
+
+// Oldest entries go first once a cache holds more than this
+const MAX_STATIC = 300;
+const MAX_PAGES = 40;
+const MAX_MEDIA = 300;
+
+// How long a page may take before we show the saved copy instead
+const NETWORK_TIMEOUT_MS = 4000;
+
+// Stamped on cached pages so the app can say how old they are
+const CACHED_AT = 'X-Cached-At';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE);
+      await shell.addAll(SHELL_URLS);
+      // The project list, so a first offline start has something to show
+      await refreshPage(new Request('/')).catch(() => {});
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((n) => !CACHES.includes(n)).map((n) => caches.delete(n)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// ─── Caching ────────────────────────────────────────────────────────────────
+
+async function trim(cacheName, max) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map((k) => cache.delete(k)));
+}
+
+async function stamp(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT, new Date().toISOString());
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+// Which page a request belongs to: /_next/data/<build>/project/abc.json is
+// the data for /project/abc, and /api/projects is what the home page lists
+function pageOf(url) {
+  if (url.pathname === '/api/projects') return '/';
+  const data = url.pathname.match(/^\/_next\/data\/[^/]+\/(.*)\.json$/);
+  if (data) return data[1] === 'index' ? '/' : `/${data[1]}`;
+  return url.pathname;
+}
+
+// Pages served from the cache, and when that copy was saved
+const stalePages = new Map();
+
+async function setPageStatus(page, cachedAt) {
+  if (cachedAt) stalePages.set(page, cachedAt);
+  else if (stalePages.delete(page) === false) return;
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'page-status', page, cachedAt }));
+}
+
+async function refreshPage(request) {
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(PAGES_CACHE);
+    await cache.put(request.url, await stamp(response.clone()));
+    await trim(PAGES_CACHE, MAX_PAGES);
+  }
+  return response;
+}
+
+// Fresh when we can get it in time, the saved copy when we can't; a late
+// answer still updates the cache for next time
+async function networkFirst(event) {
+  const { request } = event;
+  const page = pageOf(new URL(request.url));
+  const network = refreshPage(request);
+  event.waitUntil(network.catch(() => {}));
+
+  const timeout = new Promise((resolve) => setTimeout(resolve, NETWORK_TIMEOUT_MS));
+  let response;
+  try {
+    response = await Promise.race([network, timeout]);
+    // A server that's down behind a proxy answers 502/503
+    if (response && response.status < 500) {
+      setPageStatus(page, null);
+      return response;
+    }
+  } catch {
+    // Offline or unreachable: fall through to the saved copy
+  }
+
+  const cached = await caches.match(request.url, { cacheName: PAGES_CACHE });
+  if (cached) {
+    setPageStatus(page, cached.headers.get(CACHED_AT));
+    return cached;
+  }
+  try {
+    // Nothing saved: all we can do is keep waiting
+    response = response ?? (await network);
+    setPageStatus(page, null);
+    return response;
+  } catch (e) {
+    if (request.mode === 'navigate') {
+      const offline = await caches.match('/offline.html', { cacheName: SHELL_CACHE });
+      if (offline) return offline;
+    }
+    throw e;
+  }
+}
+
+async function cacheFirst(request, cacheName, max) {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok && response.type === 'basic') {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+    await trim(cacheName, max);
+  }
+  return response;
+}
+
+// <audio> asks for byte ranges; answer those from the whole saved file
+async function rangeResponse(cached, range) {
+  const blob = await cached.blob();
+  const [, startText, endText] = range.match(/bytes=(\d*)-(\d*)/) || [];
+  const start = startText ? Number(startText) : Math.max(0, blob.size - Number(endText));
+  const end = startText && endText ? Math.min(Number(endText), blob.size - 1) : blob.size - 1;
+  if (!(start <= end)) return new Response(null, { status: 416 });
+  const headers = new Headers(cached.headers);
+  headers.set('Content-Range', `bytes ${start}-${end}/${blob.size}`);
+  headers.set('Content-Length', String(end - start + 1));
+  return new Response(blob.slice(start, end + 1), { status: 206, headers });
+}
+
+async function mediaResponse(request) {
+  const range = request.headers.get('Range');
+  if (!range) return cacheFirst(request, MEDIA_CACHE, MAX_MEDIA);
+  const cached = await caches.match(request.url, { cacheName: MEDIA_CACHE });
+  if (cached) return rangeResponse(cached, range);
+  return fetch(request);
+}
+
+// Fetch whole files for the page that asked, e.g. audio the player has only
+// ever asked ranges of
+async function saveMedia(urls) {
+  const cache = await caches.open(MEDIA_CACHE);
+  for (const url of urls) {
+    if (await cache.match(url)) continue;
+    try {
+      const response = await fetch(url);
+      if (response.ok) await cache.put(url, response);
+    } catch {
+      return; // Offline again; try on the next visit
+    }
+  }
+  await trim(MEDIA_CACHE, MAX_MEDIA);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, STATIC_CACHE, MAX_STATIC));
+  } else if (url.pathname.startsWith('/uploads/')) {
+    event.respondWith(mediaResponse(request));
+  } else if (url.pathname === '/api/projects' || url.pathname.startsWith('/_next/data/')) {
+    event.respondWith(networkFirst(event));
+  } else if (request.mode === 'navigate' && !url.pathname.startsWith('/api/')) {
+    event.respondWith(networkFirst(event));
+  } else if (SHELL_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE, SHELL_URLS.length));
+  }
+});
+
+self.addEventListener('message', (event) => {
+  const { data, source } = event;
+  if (data?.type === 'save-media' && Array.isArray(data.urls)) {
+    event.waitUntil(saveMedia(data.urls));
+  }
+  if (data?.type === 'page-status?' && source) {
+    source.postMessage({ type: 'page-status', page: data.page, cachedAt: stalePages.get(data.page) ?? null });
+  }
+});
+
+// ─── Offline uploads ────────────────────────────────────────────────────────
+
+const DB_NAME = 'companycam-outbox';
+const STORE = 'uploads';
+const SYNC_TAG = 'outbox';
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore(mode, run) {
+  const db = await openOutbox();
+  try {
+    return await new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function tellClients() {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  clients.forEach((client) => client.postMessage({ type: 'outbox-changed' }));
+}
+
+async function request(url, init) {
+  const resp = await fetch(url, init);
+  return { ok: resp.ok, status: resp.status, body: await resp.json().catch(() => ({})) };
+}
+
+// One request per recording; the idempotency key makes a resend harmless
+function sendForm(entry) {
+  const form = new FormData();
+  form.append('projectId', entry.projectId);
+  form.append('idempotencyKey', entry.id);
+  form.append('capturedAt', entry.capturedAt);
+  if (entry.text) form.append('text', entry.text);
+  entry.files.forEach(({ field, file, caption }) => {
+    form.append(field, file, file.name);
+    // One per image, in order, so each caption lines up with its photo
+    if (field === 'images') form.append('captions', caption || '');
+  });
+  return request('/api/upload', { method: 'POST', body: form });
+}
+
+// Send whatever the server doesn't have yet; returns the failing response
+async function sendChunks(entry, upload) {
+  for (const [index, { file }] of entry.files.entries()) {
+    let received = upload.files[index].received;
+    while (received < file.size) {
+      const result = await request(`/api/uploads/${upload.id}/files/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream', 'Upload-Offset': String(received) },
+        body: file.slice(received, received + upload.chunkSize),
+      });
+      // 409: the server is somewhere else; carry on from there
+      if (result.ok || (result.status === 409 && typeof result.body.received === 'number')) {
+        received = result.body.received;
+      } else {
+        return result;
+      }
+    }
+  }
+  return null;
+}
+
+// The protocol of uploadResumable() in utils/upload.ts, minus checksums:
+// carry on with the page's upload if the server still has it, send what's
+// missing a chunk at a time, then complete
+async function sendChunked(entry) {
+  let upload = null;
+  if (entry.uploadId) {
+    const found = await request(`/api/uploads/${entry.uploadId}`);
+    if (found.ok) upload = found.body.upload;
+    else if (found.status !== 404) return found;
+  }
+  if (!upload) {
+    const started = await request('/api/uploads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        projectId: entry.projectId,
+        files: entry.files.map(({ field, file, caption }) => ({
+          field,
+          name: file.name || `${field}.bin`,
+          type: file.type,
+          size: file.size,
+          ...(caption ? { caption } : {}),
+        })),
+        text: entry.text,
+        idempotencyKey: entry.id,
+        capturedAt: entry.capturedAt,
+      }),
+    });
+    if (!started.ok) return started;
+    upload = started.body.upload;
+    entry.uploadId = upload.id;
+    await withStore('readwrite', (store) => store.put(entry));
+  }
+
+  // A file that failed the checksum the page sent is dropped; send it again once
+  for (let attempt = 0; ; attempt++) {
+    if (!upload.completed) {
+      const failed = await sendChunks(entry, upload);
+      if (failed) return failed;
+    }
+    const completed = await request(`/api/uploads/${upload.id}/complete`, { method: 'POST' });
+    if (completed.status !== 422 || attempt > 0) return completed;
+    const current = await request(`/api/uploads/${upload.id}`);
+    if (!current.ok) return completed;
+    upload = current.body.upload;
+  }
+}
+
+// Files bigger than this (MAX_FILE_SIZE in lib/uploads.ts) can't go to
+// /api/upload in one form, so they take the chunked /api/uploads route
+const MAX_FORM_FILE_BYTES = 50 * 1024 * 1024;
+
+async function sendEntry(entry) {
+  const large = entry.files.some(({ file }) => file.size > MAX_FORM_FILE_BYTES);
+  const result = large ? await sendChunked(entry) : await sendForm(entry);
+  if (result.ok) {
+    await withStore('readwrite', (store) => store.delete(entry.id));
+    return;
+  }
+  const message = result.body.error || `Upload failed (${result.status})`;
+  // Server trouble: fail the sync so the browser tries again later
+  if (result.status >= 500) throw new Error(message);
+  await withStore('readwrite', (store) => store.put({ ...entry, lastError: message }));
+}
+
+async function flushOutbox() {
+  // An open page sends the outbox itself, in resumable chunks
+  const clients = await self.clients.matchAll({ type: 'window' });
+  if (clients.length) {
+    clients.forEach((client) => client.postMessage({ type: 'outbox-flush' }));
+    return;
+  }
+
+  const entries = await withStore('readonly', (store) => store.getAll());
+  try {
+    for (const entry of entries) {
+      if (!entry.lastError) await sendEntry(entry);
+    }
+  } finally {
+    await tellClients();
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) event.waitUntil(flushOutbox());
+});
@@ -8,6 +8,43 @@ from faster_whisper import WhisperModel
 # Set up logging to stderr so it doesn't interfere with JSON output
 logging.basicConfig(level=logging.WARNING, stream=sys.stderr)
 
+def diarize(audio_path, segments):
+    """
+    Label each segment with the speaker who talks most during it, using
+    pyannote.audio (optional dependency). Mutates `segments` and returns the
+    speakers in order of first appearance, as [{"id": "S1", "name": "Speaker 1"}].
+    """
+    import torch
+    from faster_whisper.audio import decode_audio
+    from pyannote.audio import Pipeline
+
+    model = os.getenv("DIARIZATION_MODEL", "pyannote/speaker-diarization-3.1")
+    pipeline = Pipeline.from_pretrained(model, use_auth_token=os.getenv("HF_TOKEN"))
+    if pipeline is None:
+        raise RuntimeError(f"Could not load {model} (is HF_TOKEN set and the model's terms accepted?)")
+
+    # pyannote can't read browser WebM itself, so hand it decoded samples
+    sample_rate = 16000
+    waveform = torch.from_numpy(decode_audio(audio_path, sampling_rate=sample_rate)).unsqueeze(0)
+    result = pipeline({"waveform": waveform, "sample_rate": sample_rate})
+    turns = [(turn.start, turn.end, label) for turn, _, label in result.itertracks(yield_label=True)]
+
+    ids = {}
+    for segment in segments:
+        overlap = {}
+        for start, end, label in turns:
+            shared = min(segment["end"], end) - max(segment["start"], start)
+            if shared > 0:
+                overlap[label] = overlap.get(label, 0) + shared
+        if not overlap:
+            continue
+        label = max(overlap, key=overlap.get)
+        if label not in ids:
+            ids[label] = f"S{len(ids) + 1}"
+        segment["speaker"] = ids[label]
+
+    return [{"id": sid, "name": f"Speaker {sid[1:]}"} for sid in ids.values()]
+
 def main():
     # Check if audio file path is provided and exists
     if len(sys.argv) < 2:
@@ -24,6 +61,12 @@ def main():
         model_size = os.getenv("WHISPER_MODEL_SIZE", "base")  # Use base for speed, large-v3 for accuracy
         device = os.getenv("WHISPER_DEVICE", "cpu")
         compute_type = os.getenv("WHISPER_COMPUTE_TYPE", "int8")
+        word_timestamps = os.getenv("WHISPER_WORD_TIMESTAMPS", "0") == "1"
+        should_diarize = os.getenv("WHISPER_DIARIZE", "0") == "1"
+        # Per-project hints from the Node side; empty means "not set"
+        language = os.getenv("WHISPER_LANGUAGE") or None
+        initial_prompt = os.getenv("WHISPER_INITIAL_PROMPT") or None
+        hotwords = os.getenv("WHISPER_HOTWORDS") or None
         
         # Log configuration to stderr
         sys.stderr.write(f"Loading {model_size} model on {device} with {compute_type}\n")
@@ -40,24 +83,66 @@ def main():
         sys.stderr.flush()
         
         # Transcribe with optimized settings
-        segments, info = model.transcribe(
-            audio_path,
+        options = dict(
             beam_size=1,  # Faster processing (use 5 for better accuracy)
-            language=None,  # Auto-detect language
-            word_timestamps=False,  # Disable for speed
+            language=language,  # None auto-detects
+            initial_prompt=initial_prompt,  # Primes spellings of trade terms
+            word_timestamps=word_timestamps,  # Off by default for speed
             vad_filter=True,  # Remove silence automatically
             vad_parameters=dict(
                 min_silence_duration_ms=500,
                 speech_pad_ms=200
             )
         )
+        if hotwords:
+            options["hotwords"] = hotwords
+        try:
+            segments, info = model.transcribe(audio_path, **options)
+        except TypeError:
+            # hotwords arrived in faster-whisper 1.1; the prompt still helps without it
+            if "hotwords" not in options:
+                raise
+            sys.stderr.write("This faster-whisper has no hotwords support, using the prompt only\n")
+            sys.stderr.flush()
+            del options["hotwords"]
+            segments, info = model.transcribe(audio_path, **options)
         
-        # Extract text from segments
+        # Keep each segment's timings for click-to-seek. Segments are decoded
+        # lazily, so report how far into the audio we are as each one
+        # arrives; the Node side parses these PROGRESS lines to drive the
+        # live progress bar.
         text_segments = []
+        timed_segments = []
         for segment in segments:
             text_segments.append(segment.text.strip())
+            timed = {
+                "start": round(segment.start, 2),
+                "end": round(segment.end, 2),
+                "text": segment.text.strip()
+            }
+            if word_timestamps and segment.words:
+                timed["words"] = [
+                    {"start": round(w.start, 2), "end": round(w.end, 2), "word": w.word.strip()}
+                    for w in segment.words
+                ]
+            timed_segments.append(timed)
+            if info.duration:
+                progress = {"processed": round(segment.end, 2), "total": round(info.duration, 2)}
+                sys.stderr.write(f"PROGRESS {json.dumps(progress)}\n")
+                sys.stderr.flush()
         
         full_text = " ".join(text_segments).strip()
+
+        # Speaker labels are a bonus: if diarization fails, keep the transcript
+        speakers = []
+        if should_diarize and timed_segments:
+            sys.stderr.write("Identifying speakers...\n")
+            sys.stderr.flush()
+            try:
+                speakers = diarize(audio_path, timed_segments)
+            except Exception as e:
+                sys.stderr.write(f"Speaker diarization failed, continuing without it: {e}\n")
+                sys.stderr.flush()
         
         # Output result as JSON
         result = {
@@ -65,6 +150,8 @@ def main():
             "language": info.language,
             "language_probability": info.language_probability,
             "text": full_text,
+            "segments": timed_segments,
+            "speakers": speakers,
             "duration": info.duration
         }
         
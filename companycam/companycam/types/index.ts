@@ -6,21 +6,216 @@ export interface Note {
     text?: string;
     audio?: string;
     images?: string[];
+    /** Captions of `images`, by file name. */
+    imageCaptions?: Record<string, string>;
+    /** Files added to the note after it was created, oldest first. */
+    attachments?: NoteAttachment[];
     transcription?: string;
+    /** Timed pieces of `transcription`, as recognised; cleared by hand edits. */
+    segments?: TranscriptSegment[];
+    /** Who `segments[].speaker` refers to, when speakers were told apart. */
+    speakers?: NoteSpeaker[];
     summary?: string;
     duration?: number;
     language?: string;
     insights?: string[];
+    /** Main subjects of the note, most prominent first. */
+    topics?: string[];
+    /** Which Summarizer wrote summary/insights/topics. */
+    summarizedBy?: SummarizerKind;
+    /** Follow-ups picked out of the transcript, for the punch list. */
+    actionItems?: ActionItem[];
+    /** Hazards the safety rules found in the transcription or text. */
+    flags?: SafetyFlag[];
+    /** `transcription` with personal details replaced, e.g. "[PHONE]". */
+    redactedTranscription?: string;
+    /** What the last redaction pass took out of the note, for auditing. */
+    redactions?: Redaction[];
+    deletedAt?: string;
+    deletedBy?: string;
+    /** Key the client sent with the upload, so a retried upload finds this note. */
+    idempotencyKey?: string;
+    // Set while an upload is still being processed in the background
+    processingStatus?: NoteProcessingStatus;
+    jobId?: string;
+    transcriptionStatus?: TranscriptionStatus;
+    /** Why transcription failed or was skipped. */
+    transcriptionError?: string;
   }
+
+  export type NoteProcessingStatus = 'pending' | 'ready' | 'failed';
+
+  export type AttachmentKind = 'image' | 'audio' | 'document';
+
+  // A file added to an existing note, e.g. the photo taken after the fix
+  export interface NoteAttachment {
+    id: string;
+    kind: AttachmentKind;
+    /** Name in the uploads folder. */
+    file: string;
+    /** Filename as uploaded. */
+    name: string;
+    /** In bytes. */
+    size: number;
+    /** MIME type as uploaded, e.g. "application/pdf". */
+    type: string;
+    addedAt: string;
+    addedBy?: string;
+  }
+
+  // Times are in seconds from the start of the recording
+  export interface TranscriptWord {
+    start: number;
+    end: number;
+    word: string;
+  }
+
+  export interface TranscriptSegment {
+    start: number;
+    end: number;
+    text: string;
+    /** Only when word-level timestamps are enabled and the engine supports them. */
+    words?: TranscriptWord[];
+    /** NoteSpeaker id, when diarization is enabled. */
+    speaker?: string;
+  }
+
+  export interface ActionItem {
+    id: string;
+    /** The sentence the item was found in, as said. */
+    text: string;
+    /** Person or trade the sentence names as responsible, e.g. "Mike", "the electrician". */
+    assignee?: string;
+    /** Deadline as spoken, e.g. "by Friday", "before the inspection". */
+    due?: string;
+    /** Where in the recording it was said, when timings are known. */
+    source?: { start: number; end: number };
+    done: boolean;
+    doneAt?: string;
+    doneBy?: string;
+  }
+
+  export type SafetySeverity = 'low' | 'medium' | 'high';
+
+  // One safety rule that matched the note
+  export interface SafetyFlag {
+    /** Id of the rule that matched, e.g. "fall-protection". */
+    rule: string;
+    label: string;
+    severity: SafetySeverity;
+    /** The words that triggered it, as written. */
+    match: string;
+    /** The sentence it was found in. */
+    excerpt: string;
+    /** Where in the recording it was said, when timings are known. */
+    source?: { start: number; end: number };
+  }
+
+  export type RedactionKind = 'phone' | 'email' | 'address' | 'name';
+
+  export interface Redaction {
+    /** Note field it was found in, e.g. "transcription", "summary". */
+    field: string;
+    kind: RedactionKind;
+    /** The text that was replaced. */
+    text: string;
+  }
+
+  // An open item with the note it belongs to, for the project-wide list
+  export interface OpenActionItem {
+    noteId: string;
+    noteTimestamp: string;
+    item: ActionItem;
+  }
+
+  // Diarization only tells voices apart; people rename them afterwards
+  export interface NoteSpeaker {
+    id: string;
+    name: string;
+  }
+  export type TranscriptionStatus = 'pending' | 'done' | 'failed' | 'skipped';
   
+  // Fields of a Note that reviewers may correct after processing
+  export type EditableNoteField =
+    | 'text'
+    | 'transcription'
+    | 'summary'
+    | 'insights'
+    | 'language'
+    | 'speakers';
+  export type NoteUpdate = Partial<Pick<Note, EditableNoteField>>;
+
+  export type SummarizerKind = 'extractive' | 'llm';
+
+  // Per-project overrides of the server-wide defaults in lib/config
+  export interface ProjectSettings {
+    summarizer?: SummarizerKind;
+    /** Reports use the redacted text instead of the original. */
+    redactReports?: boolean;
+    /** People to redact in this project, on top of REDACTION_NAMES. */
+    redactNames?: string[];
+    /** ISO 639-1 code the recordings are in; auto-detected when unset. */
+    language?: string;
+    /** Trade terms and names to prime the speech recogniser with. */
+    vocabulary?: string[];
+    /** Fixes applied to every transcript, e.g. "coid" → "COID". */
+    replacements?: VocabularyReplacement[];
+    /** Id of the report template its PDFs use; the default one when unset. */
+    reportTemplate?: string;
+  }
+
+  // Parts of a note a report can show, in the order a template lists them
+  export type ReportSection =
+    | 'safety'
+    | 'text'
+    | 'summary'
+    | 'topics'
+    | 'insights'
+    | 'actionItems'
+    | 'transcription'
+    | 'images';
+
+  /**
+   * How PDF reports look, loaded from a JSON file in REPORT_TEMPLATES_DIR.
+   * Text fields may use {project}, {company}, {date}, {page} and {pages}.
+   */
+  export interface ReportTemplate {
+    id: string;
+    name: string;
+    companyName?: string;
+    /** Image file, relative to the templates directory. */
+    logo?: string;
+    /** Title at the top of a note report. */
+    title: string;
+    header?: string;
+    footer?: string;
+    colors: { primary: string; text: string; muted: string };
+    /** Standard PDF font names (e.g. "Helvetica-Bold") or .ttf/.otf files. */
+    fonts: { heading: string; body: string };
+    /** Which parts of a note to include, in order. */
+    sections: ReportSection[];
+    /** Section headings, where they should differ from the defaults. */
+    labels?: Partial<Record<ReportSection, string>>;
+  }
+
+  export type ReportTemplateSummary = Pick<ReportTemplate, 'id' | 'name' | 'companyName'>;
+
+  export interface VocabularyReplacement {
+    from: string;
+    to: string;
+  }
+
   export interface Project {
     id: string;
     name: string;
     notes: Note[];
     description?: string;
+    settings?: ProjectSettings;
     createdAt: string;
     lastActivity?: string;
     color?: string;
+    deletedAt?: string;
+    deletedBy?: string;
   }
   
   export interface MediaData {
@@ -37,12 +232,45 @@ export interface Note {
     totalDuration: number;
   }
   
+  export type UploadField = 'audio' | 'images';
+
+  export interface UploadFileInfo {
+    field: UploadField;
+    name: string;
+    type: string;
+    size: number;
+    /** Hex SHA-256 of the whole file, checked once it has all arrived. */
+    sha256?: string;
+    /** Shown under the photo; images only. */
+    caption?: string;
+  }
+
+  /** A resumable upload of one note's files, sent in chunks. */
+  export interface UploadSession {
+    id: string;
+    projectId: string;
+    createdAt: string;
+    updatedAt: string;
+    /** Largest chunk the server accepts. */
+    chunkSize: number;
+    /** Bytes of each file stored so far; the next chunk starts there. */
+    files: (UploadFileInfo & { received: number })[];
+    /** Client-chosen key; starting an upload again with it returns this session. */
+    idempotencyKey?: string;
+    /** When the files were recorded, used as the note's timestamp. */
+    capturedAt?: string;
+    /** Typed text of the note. */
+    text?: string;
+    /** Set once the note has been created from the upload. */
+    completed?: { noteId: string; jobId: string };
+  }
+
   export interface UploadResponse {
     ok: boolean;
     note?: Note;
+    jobId?: string;
     error?: string;
     reportUrl?: string;
-    pdfBase64?: string;
   }
   
   export interface TranscriptionResult {
@@ -50,10 +278,46 @@ export interface Note {
     language?: string;
     language_probability?: number;
     text?: string;
+    segments?: TranscriptSegment[];
+    speakers?: NoteSpeaker[];
     duration?: number;
     error?: string;
+    /** Which TranscriptionProvider produced the text. */
+    provider?: string;
+    /** Not a failure: there was deliberately nothing to transcribe. */
+    skipped?: boolean;
   }
   
+  // One entry per updateNote call that actually changed something. `before`
+  // holds the replaced value, so restoring a revision re-applies those.
+  export interface NoteFieldChange {
+    field: keyof Note;
+    before?: Note[keyof Note];
+    after?: Note[keyof Note];
+  }
+
+  export interface NoteRevision {
+    id: string;
+    projectId: string;
+    noteId: string;
+    timestamp: string;
+    actor?: string;
+    changes: NoteFieldChange[];
+    restoredFrom?: string;
+  }
+
+  export interface TrashedNote {
+    projectId: string;
+    projectName: string;
+    note: Note;
+  }
+
+  export interface TrashContents {
+    projects: Project[];
+    notes: TrashedNote[];
+    retentionDays: number;
+  }
+
   export interface APIError {
     error: string;
     code?: string;
@@ -67,9 +331,19 @@ export interface Note {
   
   export interface NoteCardProps {
     note: Note;
+    /** Where the note lives; needed for its PDF link. */
+    projectId?: string;
     onExpand?: (note: Note) => void;
     onShare?: (note: Note) => void;
     onDownload?: (note: Note) => void;
+    onDelete?: (note: Note) => void;
+    onUpdate?: (note: Note, updates: NoteUpdate) => Promise<void>;
+    onLoadRevisions?: (note: Note) => Promise<NoteRevision[]>;
+    onRestoreRevision?: (note: Note, revision: NoteRevision) => Promise<void>;
+    onRetryTranscription?: (note: Note) => Promise<void>;
+    onResummarize?: (note: Note) => Promise<void>;
+    onToggleActionItem?: (note: Note, item: ActionItem, done: boolean) => Promise<void>;
+    onAttach?: (note: Note, files: File[]) => Promise<void>;
   }
   
   export interface ProjectCardProps {
@@ -99,10 +373,17 @@ export interface Note {
   }
   
   // Status Types
-  export type RecordingStatus = 'idle' | 'recording' | 'uploading' | 'processing' | 'success' | 'error';
+  export type RecordingStatus =
+    | 'idle'
+    | 'recording'
+    | 'uploading'
+    | 'queued'
+    | 'processing'
+    | 'success'
+    | 'error';
   export type ViewMode = 'grid' | 'list';
   export type SortBy = 'newest' | 'oldest' | 'alphabetical';
-  export type FilterBy = 'all' | 'audio' | 'images' | 'transcribed';
+  export type FilterBy = 'all' | 'audio' | 'images' | 'transcribed' | 'safety';
   
   // Utility Types
   export interface ProjectStats {
@@ -125,8 +406,47 @@ export interface Note {
     images: File[];
   }
   
+  // Background processing of an upload (see lib/jobs)
+  export type JobStatus = 'queued' | 'running' | 'retrying' | 'done' | 'failed';
+  export type JobStep =
+    | 'queued'
+    | 'transcribing'
+    | 'summarizing'
+    | 'extracting'
+    | 'rendering-pdf'
+    | 'done';
+
+  export interface ProcessingJob {
+    id: string;
+    type: 'process-upload';
+    projectId: string;
+    noteId: string;
+    status: JobStatus;
+    step: JobStep;
+    progress: number;
+    message?: string;
+    attempts: number;
+    maxAttempts: number;
+    /** Earliest time the job may (re)run, for retry backoff. */
+    runAfter: string;
+    /** Refreshed while running; a stale heartbeat means the worker died. */
+    heartbeatAt?: string;
+    error?: string;
+    /** Intermediate results, so a retry does not redo finished steps. */
+    result?: { transcription?: TranscriptionResult };
+    createdAt: string;
+    updatedAt: string;
+  }
+
   export interface ProcessingStep {
     step: string;
     progress: number;
     message: string;
+  }
+
+  // What /api/jobs/[id]/events streams: a step plus the job's overall state
+  export interface JobProgressEvent extends ProcessingStep {
+    jobId: string;
+    status: JobStatus;
+    error?: string;
   }
\ No newline at end of file
@@ -0,0 +1,38 @@
+// /utils/actor.ts
+// Who is using the app on this device. There is no login yet, so people type
+// their name once; it is sent with every change for the audit fields
+// (revision authors, deletedBy, doneBy...), which lib/actor.ts reads.
+
+const STORAGE_KEY = 'companycam-user-name';
+
+/** Fired on window when the name changes. */
+export const USER_NAME_CHANGED = 'user-name-changed';
+
+export function getUserName(): string {
+  if (typeof localStorage === 'undefined') return '';
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    return ''; // Storage blocked, e.g. in private mode
+  }
+}
+
+export function setUserName(name: string): void {
+  const trimmed = name.trim();
+  try {
+    if (trimmed) localStorage.setItem(STORAGE_KEY, trimmed);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn('Could not save user name:', e);
+  }
+  window.dispatchEvent(new Event(USER_NAME_CHANGED));
+}
+
+/**
+ * Headers naming the user, to add to requests that change data. Encoded,
+ * since header values can't hold characters like "é".
+ */
+export function actorHeaders(): Record<string, string> {
+  const name = getUserName();
+  return name ? { 'X-Actor': encodeURIComponent(name) } : {};
+}
@@ -0,0 +1,75 @@
+// /utils/diff.ts
+import { formatTime } from './time';
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many cells the LCS table gets too big for the browser; we then
+// just show the whole old text as removed and the new one as added.
+const MAX_CELLS = 1_000_000;
+
+/** Word-level diff of two strings (longest common subsequence). */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/** Flatten a stored field value (string, list, number…) for display. */
+export function fieldToText(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(fieldToText).join('\n');
+  // Transcript segments read better as timed lines than as JSON
+  if (typeof value === 'object' && 'start' in value && 'text' in value) {
+    return `[${formatTime(Number(value.start))}] ${String(value.text)}`;
+  }
+  // Attachments by the name they were uploaded under
+  if (typeof value === 'object' && 'kind' in value && 'name' in value && 'file' in value) {
+    return String(value.name);
+  }
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
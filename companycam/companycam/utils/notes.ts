@@ -0,0 +1,20 @@
+// /utils/notes.ts
+import { FilterBy, Note } from '../types';
+
+/** Whether a note belongs in the project page's (or a report's) filter. */
+export function matchesFilter(note: Note, filter: FilterBy): boolean {
+  switch (filter) {
+    case 'audio':
+      return !!note.audio;
+    case 'images':
+      return !!(note.images && note.images.length > 0);
+    case 'transcribed':
+      return note.transcriptionStatus === 'done';
+    case 'safety':
+      return !!(note.flags && note.flags.length > 0);
+    default:
+      return true;
+  }
+}
+
+export const FILTERS: FilterBy[] = ['all', 'audio', 'images', 'transcribed', 'safety'];
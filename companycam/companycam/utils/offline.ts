@@ -0,0 +1,36 @@
+// /utils/offline.ts
+// Talks to the caching side of public/sw.js
+
+/** Whether (and since when) the service worker answered `page` from its cache. */
+export interface PageStatus {
+  page: string;
+  cachedAt: string | null;
+}
+
+const controller = () =>
+  typeof navigator !== 'undefined' ? navigator.serviceWorker?.controller ?? null : null;
+
+/**
+ * Keep these files (photos, audio) for offline viewing. Pages save their
+ * own HTML and data as they load; media is fetched whole, in the background.
+ */
+export function saveForOffline(urls: string[]): void {
+  if (urls.length) controller()?.postMessage({ type: 'save-media', urls });
+}
+
+/**
+ * Call `listener` whenever the service worker serves a page from its cache or
+ * fresh again, and ask straight away about `page`. Returns an unsubscribe.
+ */
+export function watchPageStatus(page: string, listener: (status: PageStatus) => void): () => void {
+  const sw = typeof navigator !== 'undefined' ? navigator.serviceWorker : undefined;
+  if (!sw) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'page-status') {
+      listener({ page: event.data.page, cachedAt: event.data.cachedAt ?? null });
+    }
+  };
+  sw.addEventListener('message', handleMessage);
+  controller()?.postMessage({ type: 'page-status?', page });
+  return () => sw.removeEventListener('message', handleMessage);
+}
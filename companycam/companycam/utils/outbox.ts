@@ -0,0 +1,198 @@
+// /utils/outbox.ts
+import type { UploadResponse } from '../types';
+import { isRetryableUploadError, ResumableUploadOptions, uploadResumable, UploadFile } from './upload';
+
+/**
+ * A recording waiting to reach the server. Kept in IndexedDB so it survives
+ * a closed tab or a phone with no signal.
+ */
+export interface OutboxEntry {
+  /** Also the upload's idempotency key: however often it's sent, one note. */
+  id: string;
+  projectId: string;
+  /** When it was recorded (ISO); becomes the note's timestamp. */
+  capturedAt: string;
+  files: UploadFile[];
+  /** Typed text of the note. */
+  text?: string;
+  /** The resumable upload under way, so a retry carries on from there. */
+  uploadId?: string;
+  /** Why the server turned it down; such entries wait for a manual retry. */
+  lastError?: string;
+}
+
+// public/sw.js opens the same database; keep the names in step
+const DB_NAME = 'companycam-outbox';
+const STORE = 'uploads';
+export const OUTBOX_SYNC_TAG = 'outbox';
+/** Fired on window whenever entries are added, updated or removed. */
+export const OUTBOX_CHANGED = 'outbox-changed';
+
+// Retries before the page gives up and leaves the entry for later
+const SEND_RETRIES = 2;
+
+export const isOutboxSupported = () => typeof indexedDB !== 'undefined';
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openOutbox();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const notifyChanged = () => window.dispatchEvent(new Event(OUTBOX_CHANGED));
+
+const newKey = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/** A new entry for a note captured just now; `addToOutbox` stores it. */
+export function createOutboxEntry(projectId: string, files: UploadFile[], text?: string): OutboxEntry {
+  return {
+    id: newKey(),
+    projectId,
+    capturedAt: new Date().toISOString(),
+    files,
+    ...(text ? { text } : {}),
+  };
+}
+
+/** Store a recording until it's been uploaded. */
+export async function addToOutbox(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+  notifyChanged();
+}
+
+/** Everything still waiting, oldest first. */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  if (!isOutboxSupported()) return [];
+  const entries = await withStore('readonly', (store) => store.getAll() as IDBRequest<OutboxEntry[]>);
+  return entries.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+}
+
+async function saveEntry(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', (store) => store.put(entry));
+  notifyChanged();
+}
+
+export async function removeFromOutbox(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+  notifyChanged();
+}
+
+const sending = new Map<string, Promise<UploadResponse>>();
+
+/**
+ * Upload one entry and drop it from the outbox once the note exists.
+ * Network trouble is retried a couple of times, then thrown with the entry
+ * left as it was; a rejection from the server is recorded on the entry.
+ * Sending an entry that is already on its way joins that upload.
+ */
+export function sendOutboxEntry(
+  entry: OutboxEntry,
+  options: Pick<ResumableUploadOptions, 'onProgress' | 'onConnectionChange'> = {}
+): Promise<UploadResponse> {
+  const inFlight = sending.get(entry.id);
+  if (inFlight) return inFlight;
+
+  const send = async () => {
+    try {
+      const result = await uploadResumable(entry.projectId, entry.files, {
+        ...options,
+        resumeId: entry.uploadId,
+        idempotencyKey: entry.id,
+        capturedAt: entry.capturedAt,
+        text: entry.text,
+        retries: SEND_RETRIES,
+        onStart: (uploadId) => {
+          entry.uploadId = uploadId;
+          saveEntry(entry).catch(console.error);
+        },
+      });
+      if (!result.ok) throw new Error(result.error || 'Upload failed');
+      // Entries that never made it into IndexedDB have nothing to remove
+      await removeFromOutbox(entry.id).catch(console.error);
+      return result;
+    } catch (e) {
+      if (!isRetryableUploadError(e)) {
+        entry.lastError = e instanceof Error ? e.message : 'Upload failed';
+        await saveEntry(entry).catch(console.error);
+      }
+      throw e;
+    } finally {
+      sending.delete(entry.id);
+    }
+  };
+
+  const promise = send();
+  sending.set(entry.id, promise);
+  return promise;
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Try to send everything in the outbox, one entry at a time. Entries the
+ * server rejected are only retried when `includeFailed` is set.
+ */
+export function flushOutbox({ includeFailed = false } = {}): Promise<void> {
+  if (flushing) return flushing;
+  flushing = (async () => {
+    try {
+      for (const entry of await listOutbox()) {
+        if (entry.lastError && !includeFailed) continue;
+        if (navigator.onLine === false) break;
+        if (entry.lastError) {
+          delete entry.lastError;
+          await saveEntry(entry);
+        }
+        await sendOutboxEntry(entry).catch((e) => console.warn(`Outbox upload ${entry.id} failed:`, e));
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
+
+/**
+ * Ask the service worker to send the outbox when the connection is back,
+ * even if this page has been closed by then. Returns false where the
+ * browser can't do that; the outbox is then sent the next time the app is
+ * open and online.
+ */
+export async function requestBackgroundSync(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+  try {
+    const registration = (await navigator.serviceWorker.getRegistration()) as
+      | (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })
+      | undefined;
+    if (!registration?.sync) return false;
+    await registration.sync.register(OUTBOX_SYNC_TAG);
+    return true;
+  } catch (e) {
+    console.warn('Background sync unavailable:', e);
+    return false;
+  }
+}
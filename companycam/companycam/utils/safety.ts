@@ -0,0 +1,15 @@
+// /utils/safety.ts
+import { SafetyFlag, SafetySeverity } from '../types';
+
+// Flags arrive most severe first, but edits and restores can reorder them
+export function highestSeverity(flags: SafetyFlag[]): SafetySeverity | null {
+  if (flags.some((f) => f.severity === 'high')) return 'high';
+  if (flags.some((f) => f.severity === 'medium')) return 'medium';
+  return flags.length > 0 ? 'low' : null;
+}
+
+export const SEVERITY_BADGE_CLASSES: Record<SafetySeverity, string> = {
+  high: 'bg-red-600 text-white',
+  medium: 'bg-red-100 text-red-700',
+  low: 'bg-red-50 text-red-600',
+};
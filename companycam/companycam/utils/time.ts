@@ -0,0 +1,8 @@
+// /utils/time.ts
+
+/** Seconds as m:ss, e.g. 75.4 → "1:15". */
+export function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
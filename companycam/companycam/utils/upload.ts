@@ -0,0 +1,224 @@
+// /utils/upload.ts
+import type { UploadField, UploadFileInfo, UploadResponse, UploadSession } from '../types';
+
+export interface UploadFile {
+  field: UploadField;
+  file: File;
+  /** Shown under the photo; images only. */
+  caption?: string;
+}
+
+export interface ResumableUploadOptions {
+  /** Carry on with this upload if the server still has it. */
+  resumeId?: string;
+  /** Same key, same note: retries of an upload never create a second one. */
+  idempotencyKey?: string;
+  /** When the files were recorded (ISO), if not just now. */
+  capturedAt?: string;
+  /** Typed text of the note. */
+  text?: string;
+  /**
+   * How often to retry a failed request before giving up. By default the
+   * upload waits as long as it takes for the connection to come back.
+   */
+  retries?: number;
+  /** Called once the server has given the upload an id. */
+  onStart?: (uploadId: string) => void;
+  /** Bytes the server holds so far, across all files. */
+  onProgress?: (sent: number, total: number) => void;
+  /** True while waiting for the connection to come back, false once it has. */
+  onConnectionChange?: (waiting: boolean) => void;
+}
+
+const FIRST_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30_000;
+
+class HttpError extends Error {
+  constructor(message: string, readonly status: number, readonly body: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+/** Whether `e` means the server couldn't be reached, so trying later may work. */
+export function isRetryableUploadError(e: unknown): boolean {
+  return e instanceof TypeError || (e instanceof HttpError && e.status >= 500);
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(url, init);
+  const body = await resp.json().catch(() => ({}));
+  if (!resp.ok) throw new HttpError(body.error || `Request failed (${resp.status})`, resp.status, body);
+  return body as T;
+}
+
+// Web Crypto is only there on https and localhost; uploads go unchecked elsewhere
+async function digest(data: Blob): Promise<ArrayBuffer | null> {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  return crypto.subtle.digest('SHA-256', await data.arrayBuffer());
+}
+
+const toHex = (buf: ArrayBuffer) =>
+  Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, '0')).join('');
+
+const toBase64 = (buf: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buf)));
+
+// Offline: wait for the browser to say we're back. Online but failing: back off.
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+function waitToRetry(delayMs: number): Promise<void> {
+  if (isOffline()) {
+    return new Promise((resolve) => window.addEventListener('online', () => resolve(), { once: true }));
+  }
+  return new Promise((resolve) => setTimeout(resolve, delayMs));
+}
+
+/**
+ * Run `attempt` until it succeeds, waiting out network failures and server
+ * errors up to `options.retries` times. Anything else (a 4xx) is thrown to
+ * the caller, as is the last failure once the retries run out.
+ */
+async function withRetry<T>(attempt: () => Promise<T>, options: ResumableUploadOptions): Promise<T> {
+  const retries = options.retries ?? Infinity;
+  let delay = FIRST_RETRY_MS;
+  let waiting = false;
+  for (let tries = 0; ; tries++) {
+    try {
+      const result = await attempt();
+      if (waiting) options.onConnectionChange?.(false);
+      return result;
+    } catch (e) {
+      // No point waiting for a connection we've been told not to wait for
+      if (!isRetryableUploadError(e) || tries >= retries || (isFinite(retries) && isOffline())) {
+        throw e;
+      }
+      if (!waiting) options.onConnectionChange?.(true);
+      waiting = true;
+      await waitToRetry(delay);
+      delay = Math.min(delay * 2, MAX_RETRY_MS);
+    }
+  }
+}
+
+async function startSession(
+  projectId: string,
+  files: UploadFile[],
+  options: ResumableUploadOptions
+): Promise<UploadSession> {
+  const info: UploadFileInfo[] = await Promise.all(
+    files.map(async ({ field, file, caption }) => {
+      const hash = await digest(file);
+      return {
+        field,
+        name: file.name || `${field}.bin`,
+        type: file.type,
+        size: file.size,
+        ...(hash ? { sha256: toHex(hash) } : {}),
+        ...(caption ? { caption } : {}),
+      };
+    })
+  );
+  const { upload } = await request<{ upload: UploadSession }>('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      projectId,
+      files: info,
+      text: options.text,
+      idempotencyKey: options.idempotencyKey,
+      capturedAt: options.capturedAt,
+    }),
+  });
+  return upload;
+}
+
+async function findSession(uploadId: string): Promise<UploadSession | null> {
+  try {
+    const { upload } = await request<{ upload: UploadSession }>(`/api/uploads/${uploadId}`);
+    return upload;
+  } catch (e) {
+    if (e instanceof HttpError && e.status === 404) return null;
+    throw e;
+  }
+}
+
+// Send whatever the server doesn't have yet, one chunk at a time
+async function sendFiles(
+  session: UploadSession,
+  files: UploadFile[],
+  options: ResumableUploadOptions
+): Promise<void> {
+  const total = files.reduce((acc, { file }) => acc + file.size, 0);
+  const received = session.files.map((f) => f.received);
+  const report = () => options.onProgress?.(received.reduce((a, b) => a + b, 0), total);
+  report();
+
+  for (const [index, { file }] of files.entries()) {
+    while (received[index] < file.size) {
+      const offset = received[index];
+      const chunk = file.slice(offset, offset + session.chunkSize);
+      const hash = await digest(chunk);
+      received[index] = await withRetry(async () => {
+        try {
+          const body = await request<{ received: number }>(
+            `/api/uploads/${session.id}/files/${index}`,
+            {
+              method: 'PUT',
+              headers: {
+                'Content-Type': 'application/octet-stream',
+                'Upload-Offset': String(offset),
+                ...(hash ? { 'Upload-Checksum': `sha256 ${toBase64(hash)}` } : {}),
+              },
+              body: chunk,
+            }
+          );
+          return body.received;
+        } catch (e) {
+          // The server is somewhere else, e.g. it stored a chunk whose reply
+          // we never got: carry on from there
+          if (e instanceof HttpError && e.status === 409 && typeof e.body.received === 'number') {
+            return e.body.received;
+          }
+          throw e;
+        }
+      }, options);
+      report();
+    }
+  }
+}
+
+/**
+ * Upload a note's files (there may be none if it has `options.text`) in
+ * chunks, riding out dropped connections, and create the note once
+ * everything has arrived intact. Pass the id from
+ * `onStart` back as `resumeId` to pick up an upload that was interrupted.
+ */
+export async function uploadResumable(
+  projectId: string,
+  files: UploadFile[],
+  options: ResumableUploadOptions = {}
+): Promise<UploadResponse> {
+  let session = options.resumeId
+    ? await withRetry(() => findSession(options.resumeId!), options)
+    : null;
+  if (!session) {
+    session = await withRetry(() => startSession(projectId, files, options), options);
+    options.onStart?.(session.id);
+  }
+
+  // A file that fails its checksum is dropped by the server; send it again once
+  for (let attempt = 0; ; attempt++) {
+    await sendFiles(session, files, options);
+    try {
+      const uploadId = session.id;
+      return await withRetry(
+        () => request<UploadResponse>(`/api/uploads/${uploadId}/complete`, { method: 'POST' }),
+        options
+      );
+    } catch (e) {
+      if (!(e instanceof HttpError && e.status === 422) || attempt > 0) throw e;
+      const current = await withRetry(() => findSession(session!.id), options);
+      if (!current) throw e;
+      session = current;
+    }
+  }
+}